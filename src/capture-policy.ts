@@ -0,0 +1,52 @@
+import { isHostOrSubdomain } from "./utils/utils.ts";
+
+/**
+ * What to record for outgoing requests to matching hosts or URLs. Fields left out fall back to the
+ * instrumentation's options.
+ */
+export type CaptureRule = {
+    /**
+     * A host, also matching its subdomains (`api.segment.io`), a host and path prefix (`blob.example.com/uploads/`)
+     * or a pattern tested against the host and the URL
+     */
+    match: string | RegExp,
+    /**
+     * Create spans for matching requests
+     */
+    trace?: boolean,
+    captureHeaders?: boolean,
+    captureBody?: boolean,
+    /**
+     * Maximum size in bytes of captured request and response bodies
+     */
+    maxBodySize?: number,
+}
+
+/**
+ * The first rule matching the URL. Hosts match exactly or by subdomain, `example.com` doesn't match `myexample.com`.
+ */
+export function findCaptureRule(policy: CaptureRule[] | undefined, url: string): CaptureRule | undefined {
+    if (!policy || policy.length === 0) {
+        return undefined;
+    }
+    let host = '';
+    let path = '';
+    try {
+        const parsed = new URL(url);
+        host = parsed.host;
+        path = parsed.pathname + parsed.search;
+    } catch (e) {
+    }
+    return policy.find(({ match }) => {
+        if (typeof match !== 'string') {
+            return match.test(host) || match.test(url);
+        }
+        const slash = match.indexOf('/');
+        if (slash === -1) {
+            return isHostOrSubdomain(host, match);
+        }
+        // `blob.example.com/uploads/` -> the host and a path prefix, `/healthz` -> a path prefix on any host
+        const matchHost = match.slice(0, slash);
+        return (!matchHost || isHostOrSubdomain(host, matchHost)) && path.startsWith(match.slice(slash));
+    });
+}
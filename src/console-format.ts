@@ -0,0 +1,272 @@
+import { isAttributeValue } from "@opentelemetry/core";
+import { redactBody } from "./redaction.ts";
+
+/**
+ * A log attribute value: a primitive, or arrays and maps of them (OTLP AnyValue)
+ */
+export type LogValue = string | number | boolean | LogValue[] | { [key: string]: LogValue };
+
+export type LogAttributeLimits = {
+    /**
+     * Nesting depth of object arguments kept as maps and arrays, deeper values are recorded as JSON strings
+     */
+    maxDepth: number,
+    /**
+     * Number of values taken from object arguments, counting nested fields
+     */
+    maxAttributes: number,
+}
+
+/**
+ * Format console arguments like Node.js does: `%s`, `%d`, `%i`, `%f`, `%j`, `%o`, `%O`, `%c` and `%%`
+ * in a leading string are substituted, remaining arguments are appended separated by spaces.
+ */
+export function formatLogArguments(args: unknown[]): string {
+    let rest = args;
+    let formatted = '';
+    if (typeof args[0] === 'string' && args.length > 1 && args[0].includes('%')) {
+        const format = args[0];
+        let next = 1;
+        let last = 0;
+        for (let i = 0; i < format.length - 1; i++) {
+            if (format[i] !== '%') {
+                continue;
+            }
+            const specifier = format[i + 1];
+            let replacement: string | undefined;
+            if (specifier === '%') {
+                replacement = '%';
+            } else if (next < args.length && 'sdifjoOc'.includes(specifier)) {
+                replacement = formatSpecifier(specifier, args[next++]);
+            }
+            if (replacement !== undefined) {
+                formatted += format.slice(last, i) + replacement;
+                last = i + 2;
+                i++;
+            }
+        }
+        formatted += format.slice(last);
+        rest = args.slice(next);
+    } else if (args.length > 0) {
+        formatted = stringifyArgument(args[0]);
+        rest = args.slice(1);
+    }
+
+    for (const arg of rest) {
+        formatted += ` ${stringifyArgument(arg)}`;
+    }
+    return formatted;
+}
+
+function formatSpecifier(specifier: string, arg: unknown): string {
+    switch (specifier) {
+        case 's':
+            return typeof arg === 'bigint' ? `${arg}n` : stringifyArgument(arg);
+        case 'd':
+            if (typeof arg === 'bigint') return `${arg}n`;
+            return typeof arg === 'symbol' || (typeof arg === 'object' && arg !== null) ? 'NaN' : String(Number(arg));
+        case 'i':
+            if (typeof arg === 'bigint') return `${arg}n`;
+            return typeof arg === 'symbol' ? 'NaN' : String(parseInt(String(arg), 10));
+        case 'f':
+            return typeof arg === 'symbol' ? 'NaN' : String(parseFloat(String(arg)));
+        case 'j':
+            return stringifyRedacted(arg);
+        case 'c':
+            // CSS only styles browser consoles
+            return '';
+        default:
+            return stringifyArgument(arg);
+    }
+}
+
+function stringifyArgument(arg: unknown): string {
+    if (typeof arg === 'string') {
+        return arg;
+    }
+    if (arg instanceof Error) {
+        // For Error objects, include the full stack trace
+        return arg.stack || arg.message || String(arg);
+    }
+    if (typeof arg === 'object' && arg !== null) {
+        return stringifyRedacted(arg);
+    }
+    return String(arg);
+}
+
+// Redacted like the attributes recorded from the same object. Redaction walks the parsed copy,
+// which has no cycles.
+function stringifyRedacted(value: unknown): string {
+    const json = safeStringify(value);
+    try {
+        return JSON.stringify(redactBody(JSON.parse(json)));
+    } catch (error) {
+        return json;
+    }
+}
+
+function safeStringify(value: unknown): string {
+    // Ancestors of the value being serialized, repeated references elsewhere are fine
+    const ancestors: object[] = [];
+    try {
+        return JSON.stringify(value, function (this: unknown, key, field) {
+            if (typeof field === 'bigint') {
+                return `${field}n`;
+            }
+            if (typeof field !== 'object' || field === null) {
+                return field;
+            }
+            while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+                ancestors.pop();
+            }
+            if (ancestors.includes(field)) {
+                return '[Circular]';
+            }
+            ancestors.push(field);
+            return field;
+        }) ?? String(value);
+    } catch (error) {
+        // For circular references or other issues, use string representation
+        return String(value);
+    }
+}
+
+/**
+ * Turn the fields of object arguments into log attributes, so `console.log('order placed', { orderId, total })`
+ * records `orderId` and `total` with their types. Later arguments win over earlier ones.
+ */
+export function getLogAttributes(args: unknown[], limits: LogAttributeLimits): { attributes: Record<string, LogValue>, droppedCount: number } {
+    const attributes: Record<string, LogValue> = {};
+    const budget = { remaining: limits.maxAttributes, dropped: 0 };
+
+    for (const arg of args) {
+        if (!isFields(arg)) {
+            continue;
+        }
+        const fields = normalizeObject(arg, 1, limits.maxDepth, budget, new WeakSet());
+        for (const [key, value] of Object.entries(redactBody(fields))) {
+            if (Array.isArray(value)) {
+                // The SDK only takes arrays of a single primitive type at the top level
+                attributes[key] = isAttributeValue(value) ? value : safeStringify(value);
+            } else if (typeof value !== 'object' || Object.keys(value).length > 0) {
+                attributes[key] = value;
+            }
+        }
+    }
+    return { attributes, droppedCount: budget.dropped };
+}
+
+/**
+ * Normalize and redact a single value, e.g. the data of `console.table`
+ */
+export function toLogValue(value: unknown, limits: LogAttributeLimits): LogValue | undefined {
+    const budget = { remaining: limits.maxAttributes, dropped: 0 };
+    const normalized = normalizeValue(value, 0, limits.maxDepth, budget, new WeakSet());
+    return normalized === undefined ? undefined : redactBody(normalized);
+}
+
+function isFields(value: unknown): value is object {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Error)
+        && !(value instanceof Date) && !ArrayBuffer.isView(value);
+}
+
+function normalizeObject(value: object, depth: number, maxDepth: number, budget: { remaining: number, dropped: number }, seen: WeakSet<object>): Record<string, LogValue> {
+    seen.add(value);
+    const result: Record<string, LogValue> = {};
+    for (const [key, field] of Object.entries(value)) {
+        if (budget.remaining <= 0) {
+            budget.dropped++;
+            continue;
+        }
+        budget.remaining--;
+        const normalized = normalizeValue(field, depth, maxDepth, budget, seen);
+        if (normalized === undefined) {
+            budget.remaining++;
+            continue;
+        }
+        result[key] = normalized;
+    }
+    seen.delete(value);
+    return result;
+}
+
+function normalizeValue(value: unknown, depth: number, maxDepth: number, budget: { remaining: number, dropped: number }, seen: WeakSet<object>): LogValue | undefined {
+    switch (typeof value) {
+        case 'string':
+        case 'boolean':
+            return value;
+        case 'number':
+            // NaN and Infinity have no JSON representation
+            return Number.isFinite(value) ? value : String(value);
+        case 'bigint':
+            return Number.isSafeInteger(Number(value)) ? Number(value) : String(value);
+        case 'object':
+            break;
+        default:
+            // Functions, symbols and undefined
+            return undefined;
+    }
+
+    if (value === null) {
+        return undefined;
+    }
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? String(value) : value.toISOString();
+    }
+    if (value instanceof Error) {
+        return value.message;
+    }
+    if (seen.has(value)) {
+        return '[Circular]';
+    }
+    if (depth >= maxDepth) {
+        return safeStringify(value);
+    }
+
+    if (Array.isArray(value)) {
+        seen.add(value);
+        const items = value
+            .map(item => normalizeValue(item, depth + 1, maxDepth, budget, seen))
+            .filter((item): item is LogValue => item !== undefined);
+        seen.delete(value);
+        return items;
+    }
+    if (value instanceof Map) {
+        return normalizeObject(Object.fromEntries(value), depth + 1, maxDepth, budget, seen);
+    }
+    if (value instanceof Set) {
+        return normalizeValue([...value], depth, maxDepth, budget, seen);
+    }
+    if (ArrayBuffer.isView(value)) {
+        return `[${value.constructor.name} ${value.byteLength} bytes]`;
+    }
+    return normalizeObject(value, depth + 1, maxDepth, budget, seen);
+}
+
+/**
+ * Encode a value as an OTLP/JSON AnyValue
+ */
+export function toAnyValue(value: unknown): Record<string, unknown> {
+    if (typeof value === 'string') {
+        return { stringValue: value };
+    }
+    if (typeof value === 'boolean') {
+        return { boolValue: value };
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+    }
+    if (Array.isArray(value)) {
+        return { arrayValue: { values: value.filter(item => item !== null && item !== undefined).map(toAnyValue) } };
+    }
+    if (value && typeof value === 'object') {
+        return {
+            kvlistValue: {
+                values: Object.entries(value)
+                    .filter(([, field]) => field !== null && field !== undefined)
+                    .map(([key, field]) => ({ key, value: toAnyValue(field) })),
+            }
+        };
+    }
+    return { stringValue: String(value) };
+}
@@ -0,0 +1,148 @@
+import { LogRecord, ReadableLogRecord } from "@opentelemetry/sdk-logs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The processor warns through the console method captured when the module loads
+const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+const { ConsoleLogRecordProcessor } = await import("./console-logger.ts");
+
+type Deferred = { promise: Promise<void>, resolve: () => void, reject: (error: Error) => void };
+
+function deferred(): Deferred {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+// Each export waits until the test settles it
+function createExporter() {
+    const batches: number[][] = [];
+    const pending: Deferred[] = [];
+    return {
+        batches,
+        pending,
+        export(logs: ReadableLogRecord[]): Promise<void> {
+            batches.push(logs.map(log => log.body as number));
+            const request = deferred();
+            pending.push(request);
+            return request.promise;
+        },
+    };
+}
+
+function record(body: number): LogRecord {
+    return { body } as unknown as LogRecord;
+}
+
+beforeEach(() => {
+    warn.mockClear();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('ConsoleLogRecordProcessor', () => {
+    it('exports a partial batch after the scheduled delay', async () => {
+        vi.useFakeTimers();
+        const exporter = createExporter();
+        const processor = new ConsoleLogRecordProcessor(exporter, { scheduledDelayMillis: 1000 });
+
+        processor.onEmit(record(1));
+        processor.onEmit(record(2));
+        vi.advanceTimersByTime(999);
+        expect(exporter.batches).toEqual([]);
+
+        vi.advanceTimersByTime(1);
+        expect(exporter.batches).toEqual([[1, 2]]);
+    });
+
+    it('exports a full batch without waiting for the delay', () => {
+        const exporter = createExporter();
+        const processor = new ConsoleLogRecordProcessor(exporter, { maxExportBatchSize: 2 });
+
+        processor.onEmit(record(1));
+        processor.onEmit(record(2));
+
+        expect(exporter.batches).toEqual([[1, 2]]);
+    });
+
+    it('drops records while the queue is full and reports how many with the next export', async () => {
+        const exporter = createExporter();
+        const processor = new ConsoleLogRecordProcessor(exporter, { maxQueueSize: 3, maxExportBatchSize: 2 });
+
+        for (let i = 1; i <= 7; i++) {
+            processor.onEmit(record(i));
+        }
+        // 1 and 2 are being exported, 3 to 5 fill the queue
+        expect(exporter.batches).toEqual([[1, 2]]);
+        expect(warn).not.toHaveBeenCalled();
+
+        exporter.pending[0].resolve();
+        await vi.waitFor(() => expect(exporter.batches).toHaveLength(2));
+
+        expect(exporter.batches[1]).toEqual([3, 4]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn).toHaveBeenCalledWith('[kubiks] Dropped 2 console log records because the export queue was full');
+
+        exporter.pending[1].resolve();
+        const flushed = processor.forceFlush();
+        await vi.waitFor(() => expect(exporter.batches).toHaveLength(3));
+        exporter.pending[2].resolve();
+        await flushed;
+
+        expect(exporter.batches[2]).toEqual([5]);
+        expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('drains the whole queue on flush, one export at a time', async () => {
+        const exporter = createExporter();
+        const processor = new ConsoleLogRecordProcessor(exporter, { maxExportBatchSize: 2, scheduledDelayMillis: 60_000 });
+
+        for (let i = 1; i <= 5; i++) {
+            processor.onEmit(record(i));
+        }
+        let settled = false;
+        const flushed = processor.forceFlush().then(() => {
+            settled = true;
+        });
+
+        for (let i = 0; i < 3; i++) {
+            await vi.waitFor(() => expect(exporter.pending).toHaveLength(i + 1));
+            // The next batch waits for the previous request
+            expect(exporter.batches).toHaveLength(i + 1);
+            expect(settled).toBe(false);
+            exporter.pending[i].resolve();
+        }
+        await flushed;
+
+        expect(exporter.batches).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it('keeps draining after a failed export', async () => {
+        const exporter = createExporter();
+        const processor = new ConsoleLogRecordProcessor(exporter, { maxExportBatchSize: 1 });
+
+        processor.onEmit(record(1));
+        processor.onEmit(record(2));
+        const flushed = processor.forceFlush();
+        exporter.pending[0].reject(new Error('collector unavailable'));
+        await vi.waitFor(() => expect(exporter.pending).toHaveLength(2));
+        exporter.pending[1].resolve();
+        await flushed;
+
+        expect(exporter.batches).toEqual([[1], [2]]);
+    });
+
+    it('resolves a flush of an empty queue immediately', async () => {
+        const exporter = createExporter();
+        const processor = new ConsoleLogRecordProcessor(exporter);
+
+        await processor.forceFlush();
+
+        expect(exporter.batches).toEqual([]);
+    });
+});
@@ -1,22 +1,28 @@
 import {
     LoggerProvider,
-    BatchLogRecordProcessor,
+    LogRecord,
+    LogRecordProcessor,
+    ReadableLogRecord,
 } from "@opentelemetry/sdk-logs";
 import {
     trace,
     SpanStatusCode,
     context,
     SpanKind,
+    ROOT_CONTEXT,
+    isSpanContextValid,
 } from "@opentelemetry/api";
-import { AsyncHooksContextManager } from "@opentelemetry/context-async-hooks";
-import { Resource, detectResourcesSync } from "@opentelemetry/resources";
+import { suppressTracing } from "@opentelemetry/core";
+import { Detector, DetectorSync, Resource, detectResourcesSync } from "@opentelemetry/resources";
 import { SemanticResourceAttributes } from "@opentelemetry/semantic-conventions";
 import { getPackageVersion } from "./version.js";
 import { VercelDetector } from './resources/vercel.js';
-import { awsLambdaDetector } from '@opentelemetry/resource-detector-aws';
+import { redactText } from './redaction.js';
+import { formatLogArguments, getLogAttributes, LogValue, toAnyValue, toLogValue } from './console-format.js';
+import { LogFilter, LogRateLimit } from './log-filter.js';
 
 // Define severity numbers locally since they're not exported from @opentelemetry/api
-enum SeverityNumber {
+export enum SeverityNumber {
     TRACE = 1,
     DEBUG = 5,
     INFO = 9,
@@ -32,13 +38,15 @@ enum SeverityNumber {
 class SimpleOTLPLogExporter {
     private url: string;
     private headers: Record<string, string>;
+    private timeoutMillis: number;
 
-    constructor(config: { url: string; headers?: Record<string, string> }) {
+    constructor(config: { url: string; headers?: Record<string, string>; timeoutMillis?: number }) {
         this.url = config.url;
         this.headers = config.headers || {};
+        this.timeoutMillis = config.timeoutMillis ?? 30000;
     }
 
-    async export(logs: any[]): Promise<void> {
+    async export(logs: ReadableLogRecord[]): Promise<void> {
         if (logs.length === 0) return;
 
         // Get the current resource that includes all detected attributes
@@ -70,11 +78,13 @@ class SimpleOTLPLogExporter {
                                     timeUnixNano: (log.hrTime[0] * 1_000_000_000 + log.hrTime[1]).toString(),
                                     severityText: log.severityText,
                                     severityNumber: log.severityNumber,
-                                    body: { stringValue: log.body },
-                                    attributes: Object.entries(log.attributes || {}).map(([key, value]) => ({
-                                        key,
-                                        value: { stringValue: String(value) }
-                                    })),
+                                    body: toAnyValue(log.body),
+                                    attributes: Object.entries(log.attributes || {})
+                                        .filter(([, value]) => value !== null && value !== undefined)
+                                        .map(([key, value]) => ({
+                                            key,
+                                            value: toAnyValue(value)
+                                        })),
                                     ...(traceId && { traceId }),
                                     ...(spanId && { spanId }),
                                 };
@@ -85,26 +95,137 @@ class SimpleOTLPLogExporter {
             ]
         };
 
+        // A collector that never answers would otherwise hold up every batch behind this one
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.timeoutMillis);
         try {
-            await fetch(this.url, {
+            // Suppress tracing so the fetch interceptor does not create spans for log exports
+            await context.with(suppressTracing(context.active()), () => fetch(this.url, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     ...this.headers,
                 },
                 body: JSON.stringify(payload),
-            });
+                signal: controller.signal,
+            }));
         } catch (error) {
             // Silently handle errors
+        } finally {
+            clearTimeout(timeout);
         }
     }
+}
 
-    async shutdown(): Promise<void> {
-        // No-op for simple exporter
+export type LogBatchOptions = {
+    /**
+     * Records waiting to be exported, records logged while the queue is full are dropped
+     * @default 2048
+     */
+    maxQueueSize?: number,
+    /**
+     * Records sent in a single request, a full batch is exported without waiting for the delay
+     * @default 512
+     */
+    maxExportBatchSize?: number,
+    /**
+     * Time to wait for more records before exporting a partial batch
+     * @default 1000
+     */
+    scheduledDelayMillis?: number,
+    /**
+     * Time to wait for the collector to accept a batch
+     * @default 30000
+     */
+    exportTimeoutMillis?: number,
+}
+
+/**
+ * Queues log records and exports them in batches, one request at a time. Unlike the SDK's
+ * BatchLogRecordProcessor it counts the records it drops and drains the queue completely on flush.
+ */
+export class ConsoleLogRecordProcessor implements LogRecordProcessor {
+    private queue: ReadableLogRecord[] = [];
+    private exporting?: Promise<void>;
+    private timer?: ReturnType<typeof setTimeout>;
+    private droppedCount = 0;
+    private maxQueueSize: number;
+    private maxExportBatchSize: number;
+    private scheduledDelayMillis: number;
+
+    constructor(private exporter: Pick<SimpleOTLPLogExporter, 'export'>, options: LogBatchOptions = {}) {
+        this.maxQueueSize = options.maxQueueSize ?? 2048;
+        this.maxExportBatchSize = Math.min(options.maxExportBatchSize ?? 512, this.maxQueueSize);
+        this.scheduledDelayMillis = options.scheduledDelayMillis ?? 1000;
+    }
+
+    onEmit(logRecord: LogRecord): void {
+        if (this.queue.length >= this.maxQueueSize) {
+            this.droppedCount++;
+            return;
+        }
+        this.queue.push(logRecord);
+        if (this.queue.length >= this.maxExportBatchSize) {
+            this.exportNext();
+        } else {
+            this.scheduleExport();
+        }
     }
 
     async forceFlush(): Promise<void> {
-        // No-op for simple exporter
+        while (this.queue.length > 0 || this.exporting) {
+            await (this.exporting || this.exportNext());
+        }
+    }
+
+    async shutdown(): Promise<void> {
+        await this.forceFlush();
+    }
+
+    private scheduleExport() {
+        if (this.timer || this.exporting) {
+            return;
+        }
+        this.timer = setTimeout(() => this.exportNext(), this.scheduledDelayMillis);
+        // Pending logs shouldn't keep a Node.js process alive, the exit handlers flush them
+        (this.timer as { unref?: () => void }).unref?.();
+    }
+
+    private exportNext(): Promise<void> {
+        if (this.exporting) {
+            return this.exporting;
+        }
+        clearTimeout(this.timer);
+        this.timer = undefined;
+
+        const batch = this.queue.splice(0, this.maxExportBatchSize);
+        if (batch.length === 0) {
+            return Promise.resolve();
+        }
+        this.reportDropped();
+
+        this.exporting = this.exporter.export(batch)
+            .catch(() => {
+                // Silently handle export errors
+            })
+            .finally(() => {
+                this.exporting = undefined;
+                if (this.queue.length >= this.maxExportBatchSize) {
+                    this.exportNext();
+                } else if (this.queue.length > 0) {
+                    this.scheduleExport();
+                }
+            });
+        return this.exporting;
+    }
+
+    private reportDropped() {
+        if (this.droppedCount === 0) {
+            return;
+        }
+        // The original method, a patched console would log this back into the full queue
+        originalConsole.warn(`[kubiks] Dropped ${this.droppedCount} console log records because the export queue was full`);
+        this.droppedCount = 0;
     }
 }
 
@@ -115,23 +236,38 @@ const originalConsole = {
     warn: console.warn,
     info: console.info,
     debug: console.debug,
+    trace: console.trace,
+    assert: console.assert,
+    table: console.table,
+    dir: console.dir,
+    dirxml: console.dirxml,
+    group: console.group,
+    groupCollapsed: console.groupCollapsed,
+    groupEnd: console.groupEnd,
+    time: console.time,
+    timeLog: console.timeLog,
+    timeEnd: console.timeEnd,
 };
 
-const consoleToSeverity = {
+type ConsoleMethod = keyof typeof originalConsole;
+
+// Methods missing here only keep state, e.g. `console.time`
+const consoleToSeverity: Partial<Record<ConsoleMethod, keyof typeof SeverityNumber>> = {
     log: 'INFO',
     info: 'INFO',
     warn: 'WARN',
     error: 'ERROR',
     debug: 'DEBUG',
-} as const;
-
-const consoleToSeverityNumber = {
-    log: SeverityNumber.INFO,
-    info: SeverityNumber.INFO,
-    warn: SeverityNumber.WARN,
-    error: SeverityNumber.ERROR,
-    debug: SeverityNumber.DEBUG,
-} as const;
+    trace: 'DEBUG',
+    assert: 'ERROR',
+    table: 'INFO',
+    dir: 'INFO',
+    dirxml: 'INFO',
+    group: 'INFO',
+    groupCollapsed: 'INFO',
+    timeLog: 'INFO',
+    timeEnd: 'INFO',
+};
 
 // Global variables for OpenTelemetry components
 let serviceName = 'nextjs-app'; // Default service name
@@ -140,6 +276,10 @@ let logger: any;
 let tracer: any;
 let exporter: SimpleOTLPLogExporter;
 let globalResource: Resource; // Store the detected resource globally
+// Node-only detectors (e.g. AWS) are passed in by the caller so this module stays Edge-compatible
+let resourceDetectors: (Detector | DetectorSync)[] = [new VercelDetector()];
+let consoleLogOptions: ConsoleLogOptions = {};
+let logFilter = new LogFilter();
 
 // Initialize OpenTelemetry components
 function initializeOTel() {
@@ -149,14 +289,12 @@ function initializeOTel() {
         headers: apiKey ? {
             "X-Kubiks-Key": apiKey,
         } : {},
+        timeoutMillis: consoleLogOptions.batch?.exportTimeoutMillis,
     });
 
     // Detect resources using the same detectors as the main SDK
     globalResource = detectResourcesSync({
-        detectors: [
-            awsLambdaDetector,
-            new VercelDetector(),
-        ],
+        detectors: resourceDetectors,
     });
 
     // Merge with console logger specific attributes
@@ -171,19 +309,69 @@ function initializeOTel() {
     const mergedResource = globalResource.merge(consoleLoggerResource);
 
     provider = new LoggerProvider({ resource: mergedResource });
-    const processor = new BatchLogRecordProcessor(exporter as any);
-    provider.addLogRecordProcessor(processor);
+    provider.addLogRecordProcessor(new ConsoleLogRecordProcessor(exporter, consoleLogOptions.batch));
 
     logger = provider.getLogger('console-logger', getPackageVersion());
     tracer = trace.getTracer(serviceName, getPackageVersion());
 }
 
+export type ConsoleLogOptions = {
+    /**
+     * Queue and batch sizes for exporting console logs
+     */
+    batch?: LogBatchOptions,
+    /**
+     * Nesting depth of object arguments recorded as maps and arrays, deeper values are recorded as JSON strings
+     * @default 3
+     */
+    maxAttributeDepth?: number,
+    /**
+     * Number of attributes taken from object arguments of a single call, counting nested fields
+     * @default 64
+     */
+    maxAttributes?: number,
+    /**
+     * Records less severe than this are dropped, e.g. 'INFO' to drop `console.debug`
+     */
+    minSeverity?: keyof typeof SeverityNumber,
+    /**
+     * Records sharing a message template kept per interval, numbers and ids are masked to find the template.
+     * Pass false to keep every record.
+     * @default { maxPerTemplate: 100, intervalMillis: 1000 }
+     */
+    rateLimit?: LogRateLimit | false,
+    /**
+     * Drop records logged inside traces the sampler dropped
+     * @default true
+     */
+    sampleWithTraces?: boolean,
+}
+
+type RegisterOTelOptions = ConsoleLogOptions & {
+    /**
+     * Detectors for the log resource
+     * @default [new VercelDetector()]
+     */
+    resourceDetectors?: (Detector | DetectorSync)[],
+}
+
 // Register OpenTelemetry with custom service name
-export function registerOTel(serviceNameParam: string) {
+export function registerOTel(serviceNameParam: string, options: RegisterOTelOptions = {}) {
     serviceName = serviceNameParam;
+    resourceDetectors = options.resourceDetectors || resourceDetectors;
+    configureConsoleLogs(options);
     initializeOTel();
 }
 
+function configureConsoleLogs(options: ConsoleLogOptions) {
+    consoleLogOptions = options;
+    logFilter = new LogFilter({
+        minSeverityNumber: options.minSeverity ? SeverityNumber[options.minSeverity] : undefined,
+        rateLimit: options.rateLimit,
+        sampleWithTraces: options.sampleWithTraces,
+    });
+}
+
 // Don't initialize automatically - wait for explicit service name configuration
 // initializeOTel();
 
@@ -220,7 +408,261 @@ function getOrCreateTraceContext(): { traceId: string; spanId: string } {
     };
 }
 
-export function patchConsole(): void {
+export type LogRecordInput = {
+    /**
+     * What produced the record, e.g. `console` or `pino`
+     */
+    source: string,
+    body: string,
+    severityText: string,
+    severityNumber: SeverityNumber,
+    /**
+     * Defaults to now
+     */
+    timestamp?: number,
+    attributes?: Record<string, LogValue>,
+    /**
+     * Objects whose fields are recorded as typed attributes, within the configured depth and count
+     */
+    fields?: unknown[],
+    /**
+     * What records of the same statement share for rate limiting, defaults to the body
+     */
+    template?: string,
+}
+
+/**
+ * Queue a record from the console or a logger bridge, stamped with the service name and the active trace
+ */
+export function emitLogRecord(record: LogRecordInput): void {
+    // Ensure logger is initialized, bridges may be used without patching the console
+    if (!logger) {
+        initializeOTel();
+    }
+    flushOnExit();
+    emitSuppressedSummary(false);
+
+    try {
+        const spanContext = trace.getSpanContext(context.active());
+        // Templates of suppressed records are exported in the summary, so they are redacted like bodies
+        const template = redactText(record.template ?? record.body);
+        if (!logFilter.shouldEmit(record.severityNumber, template, spanContext && isSpanContextValid(spanContext) ? spanContext : undefined)) {
+            return;
+        }
+
+        const { traceId, spanId } = getOrCreateTraceContext();
+        const { attributes: fields, droppedCount } = getLogAttributes(record.fields || [], {
+            maxDepth: consoleLogOptions.maxAttributeDepth ?? 3,
+            maxAttributes: consoleLogOptions.maxAttributes ?? 64,
+        });
+
+        // Fields of the arguments never replace the attributes recorded for every call
+        const attributes: Record<string, LogValue> = {
+            ...fields,
+            ...record.attributes,
+            source: record.source,
+            'service.name': serviceName, // This will use the current service name
+            'trace.id': traceId,
+            'span.id': spanId,
+        };
+        if (droppedCount > 0) {
+            attributes['log.dropped_attributes_count'] = droppedCount;
+        }
+
+        // The provider's processor queues the record, the span context comes from the active context
+        logger.emit({
+            // A Date, the SDK reads numbers older than process start as performance.now() offsets
+            timestamp: new Date(record.timestamp ?? Date.now()),
+            body: redactText(record.body),
+            severityText: record.severityText,
+            severityNumber: record.severityNumber,
+            attributes,
+            context: context.active(),
+        });
+    } catch (error) {
+        // Silently handle emit errors
+    }
+}
+
+/**
+ * Report how many records were rate limited or sampled out, outside of any trace
+ */
+function emitSuppressedSummary(force: boolean) {
+    const summary = logFilter.takeSummary(force);
+    if (!summary || !logger) {
+        return;
+    }
+    try {
+        logger.emit({
+            timestamp: new Date(),
+            body: `Suppressed ${summary.rateLimited + summary.sampledOut} log records`,
+            severityText: 'WARN',
+            severityNumber: SeverityNumber.WARN,
+            attributes: {
+                source: 'kubiks',
+                'service.name': serviceName,
+                'log.suppressed.rate_limited_count': summary.rateLimited,
+                'log.suppressed.sampled_out_count': summary.sampledOut,
+                ...(summary.templates.length > 0 && { 'log.suppressed.templates': summary.templates.map(redactText) }),
+            },
+            context: ROOT_CONTEXT,
+        });
+    } catch (error) {
+        // Silently handle emit errors
+    }
+}
+
+let consoleDepth = 0;
+// Labels of the open `console.group` calls
+const groups: string[] = [];
+// Start times of `console.time` labels
+const timers = new Map<string, number>();
+
+function recordConsoleCall(method: ConsoleMethod, args: any[]) {
+    switch (method) {
+        case 'time': {
+            const label = `${args[0] ?? 'default'}`;
+            if (!timers.has(label)) {
+                timers.set(label, performance.now());
+            }
+            return;
+        }
+        case 'groupEnd':
+            groups.pop();
+            return;
+        case 'group':
+        case 'groupCollapsed':
+            // The label belongs to the enclosing group
+            if (args.length > 0) {
+                emitConsoleRecord(method, args);
+            }
+            groups.push(args.length > 0 ? formatLogArguments(args) : 'group');
+            return;
+        case 'assert': {
+            const [condition, ...data] = args;
+            if (condition) {
+                return;
+            }
+            emitConsoleRecord(method, data, {
+                body: `Assertion failed${data.length > 0 ? `: ${formatLogArguments(data)}` : ''}`,
+            });
+            return;
+        }
+        case 'trace':
+            emitConsoleRecord(method, args, {
+                body: `Trace${args.length > 0 ? `: ${formatLogArguments(args)}` : ''}`,
+                // Drop the `Error` line and the frames of the patched console
+                attributes: { 'code.stacktrace': redactText((new Error().stack || '').split('\n').slice(3).join('\n')) },
+            });
+            return;
+        case 'timeLog':
+        case 'timeEnd': {
+            const [rawLabel, ...data] = args;
+            const label = `${rawLabel ?? 'default'}`;
+            const start = timers.get(label);
+            if (start === undefined) {
+                return;
+            }
+            if (method === 'timeEnd') {
+                timers.delete(label);
+            }
+            const duration = Math.round((performance.now() - start) * 1000) / 1000;
+            emitConsoleRecord(method, data, {
+                body: `${label}: ${duration}ms${data.length > 0 ? ` ${formatLogArguments(data)}` : ''}`,
+                attributes: { 'log.timer.label': label, 'log.timer.duration_ms': duration },
+                template: label,
+            });
+            return;
+        }
+        case 'table': {
+            const [data, columns] = args;
+            if (!data || typeof data !== 'object') {
+                emitConsoleRecord(method, [data]);
+                return;
+            }
+            const table = getTableValue(data, Array.isArray(columns) ? columns.map(String) : undefined);
+            emitConsoleRecord(method, [data], {
+                attributes: table ? { 'log.table': table } : {},
+                // The rows are recorded as the table rather than as fields
+                fields: [],
+            });
+            return;
+        }
+        case 'dir':
+            // The second argument holds inspect options
+            emitConsoleRecord(method, args.slice(0, 1));
+            return;
+        default:
+            emitConsoleRecord(method, args);
+    }
+}
+
+function emitConsoleRecord(method: ConsoleMethod, args: any[], record: { body?: string, attributes?: Record<string, LogValue>, fields?: unknown[], template?: string } = {}) {
+    const severityText = consoleToSeverity[method] || 'INFO';
+    const severityNumber = SeverityNumber[severityText];
+    if (!logFilter.isEnabled(severityNumber)) {
+        return;
+    }
+
+    const attributes: Record<string, LogValue> = {
+        'log.type': method,
+        ...record.attributes,
+    };
+    if (groups.length > 0) {
+        attributes['log.group'] = groups.join(' > ');
+    }
+
+    // Add error-specific attributes if any arguments are Error objects
+    args.forEach((arg, index) => {
+        if (arg instanceof Error) {
+            attributes[`error.${index}.type`] = arg.constructor.name;
+            attributes[`error.${index}.message`] = redactText(arg.message);
+            if (arg.stack) {
+                attributes[`error.${index}.stack`] = redactText(arg.stack);
+            }
+        }
+    });
+
+    // Format the message like the console does, object arguments also become typed attributes
+    emitLogRecord({
+        source: 'console',
+        body: record.body ?? formatLogArguments(args),
+        severityText,
+        severityNumber,
+        attributes,
+        fields: record.fields ?? args,
+        // The format string of `console.log('user %s signed in', id)`
+        template: record.template ?? (typeof args[0] === 'string' ? args[0] : undefined),
+    });
+}
+
+const MAX_TABLE_ROWS = 100;
+
+/**
+ * `console.table` data as `{ columns, rows }`, each row keyed by column with its index under `(index)`
+ */
+function getTableValue(data: object, columns: string[] | undefined): LogValue | undefined {
+    const entries = data instanceof Map ? [...data.entries()] : Object.entries(data);
+    const rows = entries.slice(0, MAX_TABLE_ROWS).map(([index, row]) => {
+        // Primitive rows are shown in a `Values` column
+        const values: Record<string, unknown> = row && typeof row === 'object' ? { ...row } : { Values: row };
+        const selected = columns ? Object.fromEntries(columns.map(column => [column, values[column]])) : values;
+        return { '(index)': index, ...selected };
+    });
+    const names = columns || [...new Set(rows.flatMap(row => Object.keys(row).filter(key => key !== '(index)')))];
+    return toLogValue({ columns: names, rows }, {
+        // Rows and cells add two levels, each cell keeps its own nesting
+        maxDepth: (consoleLogOptions.maxAttributeDepth ?? 3) + 2,
+        // Rows are limited instead
+        maxAttributes: Infinity,
+    });
+}
+
+export function patchConsole(options?: ConsoleLogOptions): void {
+    if (options) {
+        configureConsoleLogs({ ...consoleLogOptions, ...options });
+    }
+
     // Prevent double patching
     if (isPatched) return;
 
@@ -230,91 +672,44 @@ export function patchConsole(): void {
     }
 
     Object.entries(originalConsole).forEach(([method, originalFn]) => {
-        console[method as keyof typeof originalConsole] = (...args: any[]) => {
-            // Call original console method first
-            originalFn.apply(console, args);
-
-            // Execute within the current context to ensure trace propagation
-            const currentContext = context.active();
-            context.with(currentContext, () => {
-                // Get or create trace context
-                const { traceId, spanId } = getOrCreateTraceContext();
-
-                // Create log message - preserve raw format without object parsing
-                const message = args
-                    .map((arg) => {
-                        if (typeof arg === "string") {
-                            return arg;
-                        } else if (typeof arg === "number" || typeof arg === "boolean") {
-                            return String(arg);
-                        } else if (arg instanceof Error) {
-                            // For Error objects, include the full stack trace
-                            return arg.stack || arg.message || String(arg);
-                        } else if (typeof arg === "object" && arg !== null) {
-                            // For other objects, use JSON.stringify but handle special cases
-                            try {
-                                return JSON.stringify(arg);
-                            } catch (error) {
-                                // For circular references or other issues, use string representation
-                                return String(arg);
-                            }
-                        } else {
-                            return String(arg);
-                        }
-                    })
-                    .join(" ");
-
-                // Build basic attributes without object parsing
-                const attributes: Record<string, string> = {
-                    source: "console",
-                    'log.type': method,
-                    'service.name': serviceName, // This will use the current service name
-                    'trace.id': traceId,
-                    'span.id': spanId,
-                };
-
-                // Add error-specific attributes if any arguments are Error objects
-                args.forEach((arg, index) => {
-                    if (arg instanceof Error) {
-                        attributes[`error.${index}.type`] = arg.constructor.name;
-                        attributes[`error.${index}.message`] = arg.message;
-                        if (arg.stack) {
-                            attributes[`error.${index}.stack`] = arg.stack;
-                        }
-                    }
-                });
+        // Not every runtime implements every method
+        if (typeof originalFn !== 'function') {
+            return;
+        }
 
-                // Send to OpenTelemetry using direct exporter approach
-                const activeSpan = trace.getActiveSpan();
-
-                const logRecord = {
-                    timestamp: Date.now(),
-                    hrTime: [Math.floor(Date.now() / 1000), (Date.now() % 1000) * 1000000],
-                    body: message,
-                    severityText: consoleToSeverity[method as keyof typeof consoleToSeverity],
-                    severityNumber: consoleToSeverityNumber[method as keyof typeof consoleToSeverityNumber],
-                    attributes: {
-                        ...attributes,
-                        // Override trace context in attributes with the found values
-                        'trace.id': traceId,
-                        'span.id': spanId,
-                    },
-                    spanContext: activeSpan?.spanContext(),
-                };
-
-                // Export directly to avoid complex SDK integration
-                try {
-                    exporter.export([logRecord]);
-                } catch (error) {
-                    // Silently handle export errors
-                }
-            });
+        (console as any)[method] = (...args: any[]) => {
+            // Call original console method first. Some call others, e.g. `console.assert` calls `console.warn`,
+            // only the outer call is recorded.
+            consoleDepth++;
+            try {
+                (originalFn as (...args: any[]) => void).apply(console, args);
+            } finally {
+                consoleDepth--;
+            }
+            if (consoleDepth > 0) {
+                return;
+            }
+
+            try {
+                recordConsoleCall(method as ConsoleMethod, args);
+            } catch (error) {
+                // Silently handle recording errors
+            }
         };
     });
 
     isPatched = true;
 
-    // Set up process exit handler to flush remaining logs (Node.js runtime only)
+    flushOnExit();
+}
+
+let isFlushingOnExit = false;
+
+// Set up process exit handler to flush remaining logs (Node.js runtime only)
+function flushOnExit() {
+    if (isFlushingOnExit) return;
+    isFlushingOnExit = true;
+
     // Skip in Edge Runtime where process.on is not available
     try {
         if (typeof process !== 'undefined' &&
@@ -335,9 +730,10 @@ export function patchConsole(): void {
     }
 }
 
-// Flush logs to OTEL
+// Flush logs to OTEL, resolves once every queued record has been exported
 export async function flushLogs(): Promise<void> {
     try {
+        emitSuppressedSummary(true);
         await provider.forceFlush();
     } catch (error) {
         // Silently handle flush errors
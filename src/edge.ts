@@ -0,0 +1,5 @@
+export { KubiksEdgeSDK } from './edge/index.ts';
+export { EdgeContextManager } from './edge/context-manager.ts';
+export { FetchOTLPTraceExporter } from './edge/exporter.ts';
+export { enableFetchBodyCapture, disableFetchBodyCapture } from './fetch-interceptor.ts';
+export { patchConsole, registerOTel, flushLogs } from './console-logger.ts';
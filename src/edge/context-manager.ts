@@ -0,0 +1,69 @@
+import { Context, ContextManager, ROOT_CONTEXT } from "@opentelemetry/api";
+
+type AsyncLocalStorageLike = {
+    getStore(): Context | undefined;
+    run<R>(store: Context, fn: (...args: unknown[]) => R, ...args: unknown[]): R;
+    disable(): void;
+};
+
+/**
+ * Context manager for the Edge runtime, which exposes AsyncLocalStorage as a global instead of `async_hooks`.
+ * Falls back to synchronous propagation when AsyncLocalStorage is unavailable.
+ */
+export class EdgeContextManager implements ContextManager {
+    private storage: AsyncLocalStorageLike | undefined;
+    private current: Context = ROOT_CONTEXT;
+
+    active(): Context {
+        if (this.storage) {
+            return this.storage.getStore() || ROOT_CONTEXT;
+        }
+        return this.current;
+    }
+
+    with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(
+        context: Context,
+        fn: F,
+        thisArg?: ThisParameterType<F>,
+        ...args: A
+    ): ReturnType<F> {
+        const cb = thisArg == null ? fn : fn.bind(thisArg);
+        if (this.storage) {
+            return this.storage.run(context, cb as (...args: unknown[]) => ReturnType<F>, ...args);
+        }
+
+        const previous = this.current;
+        this.current = context;
+        try {
+            return cb(...args);
+        } finally {
+            this.current = previous;
+        }
+    }
+
+    bind<T>(context: Context, target: T): T {
+        if (typeof target !== 'function') {
+            return target;
+        }
+        const manager = this;
+        const fn = target as unknown as (...args: unknown[]) => unknown;
+        return function (this: unknown, ...args: unknown[]) {
+            return manager.with(context, () => fn.apply(this, args));
+        } as unknown as T;
+    }
+
+    enable(): this {
+        const AsyncLocalStorage = (globalThis as { AsyncLocalStorage?: new () => AsyncLocalStorageLike }).AsyncLocalStorage;
+        if (AsyncLocalStorage) {
+            this.storage = new AsyncLocalStorage();
+        }
+        return this;
+    }
+
+    disable(): this {
+        this.storage?.disable();
+        this.storage = undefined;
+        this.current = ROOT_CONTEXT;
+        return this;
+    }
+}
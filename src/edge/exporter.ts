@@ -0,0 +1,57 @@
+import { context } from "@opentelemetry/api";
+import { ExportResult, ExportResultCode, suppressTracing } from "@opentelemetry/core";
+import { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { createExportTraceServiceRequest } from "@opentelemetry/otlp-transformer";
+
+type FetchOTLPTraceExporterConfig = {
+    url: string,
+    headers?: Record<string, string>,
+}
+
+/**
+ * OTLP/HTTP JSON trace exporter built on `fetch`, for runtimes without Node's `http` module
+ */
+export class FetchOTLPTraceExporter implements SpanExporter {
+    private url: string;
+    private headers: Record<string, string>;
+    private pending = new Set<Promise<void>>();
+
+    constructor(config: FetchOTLPTraceExporterConfig) {
+        this.url = config.url;
+        this.headers = config.headers || {};
+    }
+
+    export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+        const body = JSON.stringify(createExportTraceServiceRequest(spans, { useHex: true, useLongBits: false }));
+
+        // Suppress tracing so the fetch interceptor does not create spans for our own exports
+        const request = context.with(suppressTracing(context.active()), () => fetch(this.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.headers,
+            },
+            body,
+        }));
+
+        const promise = request
+            .then(response => {
+                resultCallback({ code: response.ok ? ExportResultCode.SUCCESS : ExportResultCode.FAILED });
+            })
+            .catch(error => {
+                resultCallback({ code: ExportResultCode.FAILED, error });
+            })
+            .finally(() => {
+                this.pending.delete(promise);
+            });
+        this.pending.add(promise);
+    }
+
+    async forceFlush(): Promise<void> {
+        await Promise.all(this.pending);
+    }
+
+    async shutdown(): Promise<void> {
+        await this.forceFlush();
+    }
+}
@@ -0,0 +1,192 @@
+import api, { Attributes, Context, DiagConsoleLogger, DiagLogLevel, SpanKind } from "@opentelemetry/api";
+import { CompositePropagator, W3CBaggagePropagator, W3CTraceContextPropagator } from "@opentelemetry/core";
+import { Resource } from "@opentelemetry/resources";
+import { BasicTracerProvider, BatchSpanProcessor, ReadableSpan, Sampler, Span, SpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { VercelDetector } from "../resources/vercel.ts";
+import { enableFetchBodyCapture, HostMatcher } from "../fetch-interceptor.ts";
+import { ConsoleLogOptions, flushLogs, patchConsole, registerOTel } from "../console-logger.ts";
+import { configureJwtClaims, configureRedaction, JwtClaimsOptions, RedactionOptions } from "../redaction.ts";
+import { EdgeContextManager } from "./context-manager.ts";
+import { FetchOTLPTraceExporter } from "./exporter.ts";
+
+type KubiksEdgeSDKOpts = {
+    collectorUrl?: string,
+    kubiksKey?: string,
+    service?: string,
+    sampler?: Sampler,
+    resourceAttributes?: Attributes,
+    /**
+     * Trace outgoing fetch calls with the fetch interceptor
+     * @default true
+     */
+    enableFetchBodyCapture?: boolean,
+    /**
+     * Send console output to Kubiks
+     * @default true
+     */
+    enableConsoleLogging?: boolean,
+    /**
+     * Batching, attribute limits, minimum severity and rate limits for console logs
+     */
+    consoleLogs?: ConsoleLogOptions,
+    /**
+     * Only propagate trace context to these hosts and their subdomains (all hosts when empty)
+     */
+    propagationAllowHosts?: HostMatcher[],
+    /**
+     * Never propagate trace context to these hosts and their subdomains. Replaces the defaults.
+     * @default ['api.stripe.com', 'otlp.kubiks.ai']
+     */
+    propagationDenyHosts?: HostMatcher[],
+    redaction?: RedactionOptions,
+    jwtClaims?: JwtClaimsOptions,
+}
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+// Next.js exposes the current request's waitUntil through this global
+const NEXT_REQUEST_CONTEXT = Symbol.for('@next/request-context');
+
+function getRequestWaitUntil(): WaitUntil | undefined {
+    const requestContext = (globalThis as Record<symbol, { get?: () => { waitUntil?: WaitUntil } | undefined }>)[NEXT_REQUEST_CONTEXT];
+    return requestContext?.get?.()?.waitUntil;
+}
+
+/**
+ * Flushes all telemetry once a SERVER span ends, so nothing is lost when the isolate is frozen after the response
+ */
+class WaitUntilFlushSpanProcessor implements SpanProcessor {
+    constructor(private flush: () => Promise<void>) { }
+
+    onStart(_span: Span, _parentContext: Context): void { }
+
+    onEnd(span: ReadableSpan): void {
+        if (span.kind !== SpanKind.SERVER) {
+            return;
+        }
+        const waitUntil = getRequestWaitUntil();
+        if (waitUntil) {
+            waitUntil(this.flush());
+        }
+    }
+
+    async forceFlush(): Promise<void> { }
+
+    async shutdown(): Promise<void> { }
+}
+
+/**
+ * KubiksEdgeSDK configures OpenTelemetry for the Next.js Edge runtime and sends traces and logs to Kubiks.
+ *
+ * Uses a web-compatible tracer provider, a fetch-based OTLP exporter and the fetch interceptor,
+ * and flushes through `waitUntil` at the end of each request.
+ *
+ * @param {string} options.kubiksKey - The Kubiks API key. Defaults to the KUBIKS_KEY environment variable.
+ * @param {string} options.service - The name of the service.
+ * @param {string} options.collectorUrl - The URL of the Kubiks collector. Defaults to https://otlp.kubiks.ai
+ * @param {boolean} options.enableFetchBodyCapture - Trace outgoing fetch calls. Defaults to true.
+ * @param {boolean} options.enableConsoleLogging - Send console output to Kubiks. Defaults to true.
+ * @param {ConsoleLogOptions} options.consoleLogs - Batching, attribute limits, minimum severity and rate limits for console logs.
+ */
+export class KubiksEdgeSDK {
+    options: KubiksEdgeSDKOpts;
+    provider: BasicTracerProvider | undefined;
+
+    constructor(options: KubiksEdgeSDKOpts = {}) {
+        options.collectorUrl = options.collectorUrl || process.env.COLLECTOR_URL || "https://otlp.kubiks.ai";
+        options.kubiksKey = options.kubiksKey || process.env.KUBIKS_API_KEY || process.env.KUBIKS_KEY;
+        options.enableFetchBodyCapture = options.enableFetchBodyCapture !== false; // Default to true
+        options.enableConsoleLogging = options.enableConsoleLogging !== false; // Default to true
+
+        this.options = options;
+        configureRedaction(options.redaction);
+        configureJwtClaims(options.jwtClaims);
+    }
+
+    start() {
+        if (process.env.OTEL_LOG_LEVEL === "debug") {
+            api.diag.setLogger(new DiagConsoleLogger(), DiagLogLevel.ALL);
+        }
+
+        const resource = new VercelDetector().detect().merge(new Resource({
+            ...(this.options.service ? { 'service.name': this.options.service, 'service.namespace': this.options.service } : {}),
+            ...this.options.resourceAttributes,
+        }));
+
+        const provider = new BasicTracerProvider({
+            sampler: this.options.sampler,
+            resource,
+            forceFlushTimeoutMillis: 5000,
+        });
+
+        if (!this.options.kubiksKey) {
+            console.warn("No Kubiks API key provided. Traces will not be sent to Kubiks.")
+        }
+
+        if (this.options.kubiksKey) {
+            const exporter = new FetchOTLPTraceExporter({
+                url: this.options.collectorUrl + "/v1/traces",
+                headers: {
+                    "X-Kubiks-Key": this.options.kubiksKey,
+                },
+            });
+            provider.addSpanProcessor(new BatchSpanProcessor(exporter, {
+                maxQueueSize: 100,
+                maxExportBatchSize: 5,
+            }));
+        }
+        provider.addSpanProcessor(new WaitUntilFlushSpanProcessor(() => this.forceFlush()));
+
+        provider.register({
+            contextManager: new EdgeContextManager().enable(),
+            propagator: new CompositePropagator({
+                propagators: [new W3CTraceContextPropagator(), new W3CBaggagePropagator()],
+            }),
+        });
+        this.provider = provider;
+
+        if (this.options.enableFetchBodyCapture) {
+            enableFetchBodyCapture({
+                captureRequestBody: true,
+                captureResponseBody: true,
+                captureHeaders: true,
+                propagationAllowHosts: this.options.propagationAllowHosts,
+                propagationDenyHosts: this.options.propagationDenyHosts,
+            });
+        }
+
+        if (this.options.enableConsoleLogging) {
+            registerOTel(this.options.service || 'nextjs-app', {
+                ...this.options.consoleLogs,
+                resourceDetectors: [new VercelDetector()],
+            });
+            patchConsole();
+        }
+
+        return provider;
+    }
+
+    /**
+     * Flush pending spans and logs. Pass the middleware `event` (or anything with `waitUntil`)
+     * to keep the isolate alive until the export completes.
+     */
+    flush(event?: { waitUntil: WaitUntil }): Promise<void> {
+        const promise = this.forceFlush();
+        const waitUntil = event ? event.waitUntil.bind(event) : getRequestWaitUntil();
+        if (waitUntil) {
+            waitUntil(promise);
+        }
+        return promise;
+    }
+
+    private async forceFlush(): Promise<void> {
+        try {
+            await Promise.all([
+                this.provider?.forceFlush(),
+                this.options.enableConsoleLogging ? flushLogs() : undefined,
+            ]);
+        } catch (error) {
+            // Silently handle flush errors
+        }
+    }
+}
@@ -1,8 +1,11 @@
 import { InstrumentationOption } from "@opentelemetry/instrumentation";
+import { awsLambdaDetector } from "@opentelemetry/resource-detector-aws";
 import { BetterHttpInstrumentation, BetterHttpInstrumentationOptions } from "./http.ts";
 import { EnhancedUndiciInstrumentation } from "./enhanced-undici.ts";
-import { enableFetchBodyCapture } from "./fetch-interceptor.ts";
-import { patchConsole, registerOTel } from "./console-logger.ts";
+import { enableFetchBodyCapture, HostMatcher } from "./fetch-interceptor.ts";
+import { ConsoleLogOptions, patchConsole, registerOTel } from "./console-logger.ts";
+import { configureJwtClaims, JwtClaimsOptions } from "./redaction.ts";
+import { VercelDetector } from "./resources/vercel.ts";
 
 export interface EnhancedHttpInstrumentationOptions extends BetterHttpInstrumentationOptions {
     /**
@@ -12,11 +15,34 @@ export interface EnhancedHttpInstrumentationOptions extends BetterHttpInstrument
      * @default true (fetch interceptor only to prevent duplicate spans)
      */
     enableFetchBodyCapture?: boolean;
+    /**
+     * Inject W3C trace context headers into outgoing fetch requests
+     * @default true
+     */
+    propagateTraceContext?: boolean;
+    /**
+     * Only propagate trace context to these hosts and their subdomains (all hosts when empty)
+     */
+    propagationAllowHosts?: HostMatcher[];
+    /**
+     * Never propagate trace context to these hosts and their subdomains. Replaces the defaults.
+     * @default ['api.stripe.com', 'otlp.kubiks.ai']
+     */
+    propagationDenyHosts?: HostMatcher[];
+    /**
+     * Record claims of bearer JWTs from the Authorization header as span attributes
+     * @default { mode: 'off' }
+     */
+    jwtClaims?: JwtClaimsOptions;
     /**
      * Enable console log interception to send logs to OpenTelemetry
      * @default true
      */
     enableConsoleLogging?: boolean;
+    /**
+     * Batching, attribute limits, minimum severity and rate limits for console logs
+     */
+    consoleLogs?: ConsoleLogOptions;
     /**
      * Service name for OpenTelemetry traces and logs
      * @default 'nextjs-app'
@@ -30,11 +56,18 @@ export interface EnhancedHttpInstrumentationOptions extends BetterHttpInstrument
  */
 export function getEnhancedHttpInstrumentations(options: EnhancedHttpInstrumentationOptions = {}): InstrumentationOption[] {
     const instrumentations: InstrumentationOption[] = [];
+
+    if (options.jwtClaims) {
+        configureJwtClaims(options.jwtClaims);
+    }
     
     // Initialize console logging if enabled (default: true)
     if (options.enableConsoleLogging !== false) {
         const serviceName = options.serviceName || 'nextjs-app';
-        registerOTel(serviceName);
+        registerOTel(serviceName, {
+            ...options.consoleLogs,
+            resourceDetectors: [awsLambdaDetector, new VercelDetector()],
+        });
         patchConsole();
     }
     
@@ -57,6 +90,11 @@ export function getEnhancedHttpInstrumentations(options: EnhancedHttpInstrumenta
                 captureResponseBody: options.captureBody,
                 captureHeaders: options.captureHeaders,
                 maxBodySize: 5242880, // 5MB
+                plugins: options.plugins,
+                propagateTraceContext: options.propagateTraceContext,
+                propagationAllowHosts: options.propagationAllowHosts,
+                propagationDenyHosts: options.propagationDenyHosts,
+                capturePolicy: options.capturePolicy,
             });
         } catch (error) {
             console.warn('Failed to enable fetch body capture:', error.message);
@@ -66,6 +104,8 @@ export function getEnhancedHttpInstrumentations(options: EnhancedHttpInstrumenta
                 captureRequestBody: options.captureBody,
                 captureResponseBody: options.captureBody,
                 captureHeaders: options.captureHeaders,
+                plugins: options.plugins,
+                capturePolicy: options.capturePolicy,
             }));
         }
     } else {
@@ -76,6 +116,8 @@ export function getEnhancedHttpInstrumentations(options: EnhancedHttpInstrumenta
                 captureRequestBody: options.captureBody,
                 captureResponseBody: options.captureBody,
                 captureHeaders: options.captureHeaders,
+                plugins: options.plugins,
+                capturePolicy: options.capturePolicy,
             }));
         } catch (error) {
             console.warn('EnhancedUndiciInstrumentation not available:', error.message);
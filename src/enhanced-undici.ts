@@ -2,76 +2,12 @@ import { Span } from '@opentelemetry/api';
 import { UndiciInstrumentation, UndiciInstrumentationConfig } from '@opentelemetry/instrumentation-undici';
 import { flatten } from 'flat';
 import { parse } from 'querystring';
+import * as diagch from 'diagnostics_channel';
 import { getPackageVersion } from './version.js';
-
-// List of sensitive headers to redact
-const SENSITIVE_HEADERS = [
-    'authorization',
-    'cookie',
-    'set-cookie',
-    'x-api-key',
-    'x-auth-token',
-    'x-access-token',
-    'x-kubiks-key',
-    'bearer',
-    'proxy-authorization',
-    'www-authenticate',
-    'proxy-authenticate',
-];
-
-// Function to parse JWT token and extract claims
-function parseJWTClaims(token: string): Record<string, any> | null {
-    try {
-        // Remove "Bearer " prefix if present
-        const cleanToken = token.replace(/^Bearer\s+/i, '');
-        
-        // JWT tokens have 3 parts separated by dots
-        const parts = cleanToken.split('.');
-        if (parts.length !== 3) {
-            return null;
-        }
-        
-        // Decode the payload (second part)
-        const payload = parts[1];
-        
-        // Add padding if needed for base64 decoding
-        const padded = payload + '='.repeat((4 - payload.length % 4) % 4);
-        
-        // Decode base64url
-        const decoded = Buffer.from(padded.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
-        
-        return JSON.parse(decoded);
-    } catch (error) {
-        return null;
-    }
-}
-
-// Function to redact sensitive headers and extract JWT claims
-function redactSensitiveHeaders(headers: Record<string, string>): { redactedHeaders: Record<string, string>, jwtClaims: Record<string, any> } {
-    const redactedHeaders = { ...headers };
-    let jwtClaims: Record<string, any> = {};
-    
-    for (const key in redactedHeaders) {
-        const lowerKey = key.toLowerCase();
-        if (SENSITIVE_HEADERS.some(sensitive => lowerKey.includes(sensitive))) {
-            // Check if this is an authorization header and try to parse JWT
-            if (lowerKey.includes('authorization') && redactedHeaders[key]) {
-                const claims = parseJWTClaims(redactedHeaders[key]);
-                if (claims) {
-                    // Add JWT claims as token.* attributes
-                    for (const [claimKey, claimValue] of Object.entries(claims)) {
-                        if (typeof claimValue === 'string' || typeof claimValue === 'number' || typeof claimValue === 'boolean') {
-                            jwtClaims[`token.${claimKey}`] = String(claimValue);
-                        }
-                    }
-                }
-            }
-            redactedHeaders[key] = '[REDACTED]';
-        }
-    }
-    
-    return { redactedHeaders, jwtClaims };
-}
+import { redactHeaders, redactBody, redactUrl } from './redaction.ts';
+import { HttpPlugin, PluginRequest } from './http-plugins/plugin.ts';
+import { applyPluginError, applyPluginRequest, applyPluginResponse, createPluginRequest, findPlugin } from './http-plugins/runner.ts';
+import { CaptureRule, findCaptureRule } from './capture-policy.ts';
 
 interface UndiciRequest {
     origin: string;
@@ -86,6 +22,7 @@ interface UndiciRequest {
     contentLength: number | null;
     contentType: string | null;
     body: any;
+    onData: (chunk: Buffer) => unknown;
 }
 
 interface UndiciResponse {
@@ -99,10 +36,48 @@ interface EnhancedUndiciInstrumentationConfig extends UndiciInstrumentationConfi
     captureResponseBody?: boolean;
     captureHeaders?: boolean;
     maxBodySize?: number;
+    /**
+     * Plugins that parse requests and responses of matching hosts, e.g. StripePlugin
+     */
+    plugins?: HttpPlugin[];
+    /**
+     * Per host or URL rules: whether to trace requests, capture headers and bodies, and the body size limit
+     */
+    capturePolicy?: CaptureRule[];
 }
 
-// Global map to track response bodies (cleanup needed)
-const responseBodyMap = new WeakMap();
+// What is recorded for one request, after applying the capture policy
+type RequestCapture = {
+    captureHeaders: boolean;
+    captureRequestBody: boolean;
+    captureResponseBody: boolean;
+    maxBodySize: number;
+};
+
+type CapturedResponseBody = {
+    span: Span;
+    statusCode: number;
+    headers: Record<string, string>;
+    plugin?: { plugin: HttpPlugin, request: PluginRequest, span: Span };
+    capture: RequestCapture;
+    contentType: string | null;
+    contentLength: number;
+    chunks: Buffer[];
+    capturedSize: number;
+    totalSize: number;
+    chunkReceived: boolean;
+};
+
+// Response bodies assembled from undici body chunks, removed when the request completes or fails
+const responseBodyMap = new WeakMap<UndiciRequest, CapturedResponseBody>();
+
+// The plugin that handled a request, until its response arrives
+const pluginRequestMap = new WeakMap<UndiciRequest, { plugin: HttpPlugin, request: PluginRequest, span: Span }>();
+
+// Requests have their onData wrapped on creation, undici 6 publishes no channel for body chunks
+const CREATE_CHANNEL = 'undici:request:create';
+const TRAILERS_CHANNEL = 'undici:request:trailers';
+const ERROR_CHANNEL = 'undici:request:error';
 
 /**
  * Enhanced Undici Instrumentation that captures request/response payloads
@@ -110,10 +85,17 @@ const responseBodyMap = new WeakMap();
  */
 export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
     private options: EnhancedUndiciInstrumentationConfig;
+    private declare bodyChannelSubs: { name: string, onMessage: (message: any) => void }[];
 
     constructor(options: EnhancedUndiciInstrumentationConfig = {}) {
         const enhancedOptions = {
             ...options,
+            ignoreRequestHook: (request: UndiciRequest) => {
+                if (options.ignoreRequestHook?.(request)) {
+                    return true;
+                }
+                return findCaptureRule(options.capturePolicy, new URL(request.path, request.origin).href)?.trace === false;
+            },
             requestHook: (span: Span, request: UndiciRequest) => {
                 this.enhancedRequestHook(span, request);
                 if (options.requestHook) {
@@ -139,6 +121,128 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
         
     }
 
+    override enable() {
+        // Called by the base constructor, so subscriptions are tracked without a field initializer.
+        // Subscribing before the base instrumentation lets the body be attached before it ends the span on trailers.
+        this.bodyChannelSubs = this.bodyChannelSubs || [];
+        if (this.bodyChannelSubs.length === 0) {
+            this.subscribeToBodyChannel(CREATE_CHANNEL, this.interceptBodyChunks.bind(this));
+            this.subscribeToBodyChannel(TRAILERS_CHANNEL, this.onBodyDone.bind(this));
+            this.subscribeToBodyChannel(ERROR_CHANNEL, this.onRequestError.bind(this));
+        }
+        super.enable();
+    }
+
+    override disable() {
+        super.disable();
+        for (const { name, onMessage } of this.bodyChannelSubs || []) {
+            diagch.unsubscribe(name, onMessage);
+        }
+        this.bodyChannelSubs = [];
+    }
+
+    private subscribeToBodyChannel(name: string, onMessage: (message: any) => void) {
+        diagch.subscribe(name, onMessage);
+        this.bodyChannelSubs.push({ name, onMessage });
+    }
+
+    private onRequestError({ request, error }: { request: UndiciRequest, error: unknown }) {
+        // Errors before the response headers leave the plugin in pluginRequestMap, later ones in responseBodyMap
+        const pluginSpan = pluginRequestMap.get(request) || responseBodyMap.get(request)?.plugin;
+        pluginRequestMap.delete(request);
+        responseBodyMap.delete(request);
+        if (pluginSpan) {
+            applyPluginError(pluginSpan.span, pluginSpan.plugin, error, pluginSpan.request);
+        }
+    }
+
+    private interceptBodyChunks({ request }: { request: UndiciRequest }) {
+        const onData = request.onData;
+        if (typeof onData !== 'function') {
+            return;
+        }
+        const onBodyChunk = this.onBodyChunk.bind(this);
+        // Chunks are read before the handler sees them, the handler may consume or reuse the buffer
+        request.onData = function (this: UndiciRequest, chunk: Buffer) {
+            try {
+                onBodyChunk(request, chunk);
+            } catch (error) {
+            }
+            return onData.call(this, chunk);
+        };
+    }
+
+    private onBodyChunk(request: UndiciRequest, chunk: Buffer) {
+        const captured = responseBodyMap.get(request);
+        if (!captured || !chunk) {
+            return;
+        }
+        const maxBodySize = captured.capture.maxBodySize;
+        captured.chunkReceived = true;
+        captured.totalSize += chunk.length;
+        if (captured.capturedSize < maxBodySize) {
+            const part = chunk.subarray(0, maxBodySize - captured.capturedSize);
+            captured.chunks.push(Buffer.from(part));
+            captured.capturedSize += part.length;
+        }
+    }
+
+    private onBodyDone({ request }: { request: UndiciRequest }) {
+        const captured = responseBodyMap.get(request);
+        if (!captured) {
+            return;
+        }
+        responseBodyMap.delete(request);
+
+        try {
+            if (!captured.chunkReceived) {
+                // Requests created before the instrumentation was enabled
+                if (captured.capture.captureResponseBody && captured.contentLength > 0 && captured.span.isRecording()) {
+                    captured.span.setAttribute('response.body.capture_limitation', 'undici_stream_not_intercepted');
+                }
+            } else if (captured.capture.captureResponseBody) {
+                const bodyData = redactBody(this.formatResponseBody(captured));
+                if (bodyData !== null && bodyData !== undefined) {
+                    captured.span.setAttribute('response.body', typeof bodyData === 'string' ? bodyData : JSON.stringify(bodyData));
+                }
+            }
+
+            if (captured.plugin) {
+                // Plugins only see complete bodies
+                const complete = captured.chunkReceived && captured.totalSize <= captured.capture.maxBodySize;
+                const body = complete && captured.capturedSize > 0 ? this.parseBody(Buffer.concat(captured.chunks), captured.contentType) : undefined;
+                applyPluginResponse(captured.span, captured.plugin.plugin, {
+                    statusCode: captured.statusCode,
+                    headers: captured.headers,
+                    body,
+                }, captured.plugin.request);
+            }
+        } catch (error) {
+        }
+    }
+
+    private formatResponseBody(captured: CapturedResponseBody): any {
+        const body = Buffer.concat(captured.chunks);
+
+        if (captured.totalSize > captured.capture.maxBodySize) {
+            return {
+                _truncated: true,
+                _size: captured.totalSize,
+                _preview: body.toString('utf8').substring(0, 100)
+            };
+        }
+
+        if (body.length === 0) {
+            return null;
+        }
+
+        if (!this.shouldCaptureBody(captured.contentType, body, captured.capture.maxBodySize)) {
+            return { _type: 'Binary', _size: captured.totalSize, _note: 'Binary data not captured' };
+        }
+
+        return this.parseBody(body, captured.contentType);
+    }
+
     private enhancedRequestHook(span: Span, request: UndiciRequest) {
         try {
 
@@ -149,11 +253,22 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
                 'kubiks.otel.instrumentation': 'enhanced-undici',
             });
 
+            // Scrub sensitive query parameters from the URL attributes set by the base instrumentation
+            const requestUrl = new URL(request.path, request.origin);
+            const capture = this.getCapture(requestUrl.toString());
+            if (requestUrl.search) {
+                const redactedUrl = new URL(redactUrl(requestUrl.toString()));
+                span.setAttributes({
+                    'url.full': redactedUrl.toString(),
+                    'url.query': redactedUrl.search,
+                });
+            }
+
             // Capture headers
-            if (this.options.captureHeaders) {
+            if (capture.captureHeaders) {
                 const headers = this.extractHeaders(request.headers);
                 if (headers && Object.keys(headers).length > 0) {
-                    const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(headers);
+                    const { redactedHeaders, jwtClaims } = redactHeaders(headers);
                     span.setAttributes(flatten({ request: { headers: redactedHeaders } }));
                     // Add JWT claims as span attributes
                     if (Object.keys(jwtClaims).length > 0) {
@@ -162,16 +277,24 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
                 }
             }
 
-            // Capture request body (for POST, PUT, PATCH requests)
-            if (this.options.captureRequestBody && request.body) {
+            const pluginRequest = createPluginRequest('undici', 'client', request.method, requestUrl.toString(), this.extractHeaders(request.headers));
+            const plugin = findPlugin(this.options.plugins, pluginRequest);
+
+            // Capture request body (for POST, PUT, PATCH requests), plugins read it even when the capture policy keeps it off the span
+            if ((capture.captureRequestBody || plugin?.captureBody) && request.body) {
                 const contentType = request.contentType || this.getContentTypeFromHeaders(request.headers);
-                if (this.shouldCaptureBody(contentType, request.body)) {
-                    const bodyData = this.parseBody(request.body, contentType);
+                if (this.shouldCaptureBody(contentType, request.body, capture.maxBodySize)) {
+                    pluginRequest.body = this.parseBody(request.body, contentType);
+                    const bodyData = capture.captureRequestBody ? redactBody(pluginRequest.body) : null;
                     if (bodyData !== null) {
                         span.setAttribute('request.body', typeof bodyData === 'string' ? bodyData : JSON.stringify(bodyData));
                     }
                 }
-            } else if (request.method !== 'GET' && request.method !== 'HEAD') {
+            }
+
+            if (plugin) {
+                applyPluginRequest(span, plugin, pluginRequest);
+                pluginRequestMap.set(request, { plugin, request: pluginRequest, span });
             }
 
             // Add content type and length as attributes
@@ -189,12 +312,13 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
 
     private enhancedResponseHook(span: Span, info: { request: UndiciRequest; response: UndiciResponse }) {
         try {
+            const capture = this.getCapture(new URL(info.request.path, info.request.origin).toString());
 
             // Capture response headers
-            if (this.options.captureHeaders && info.response.headers) {
+            if (capture.captureHeaders && info.response.headers) {
                 const headers = this.extractResponseHeaders(info.response.headers);
                 if (headers && Object.keys(headers).length > 0) {
-                    const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(headers);
+                    const { redactedHeaders, jwtClaims } = redactHeaders(headers);
                     span.setAttributes(flatten({ response: { headers: redactedHeaders } }));
                     // Add JWT claims as span attributes (for response headers like set-cookie with JWT)
                     if (Object.keys(jwtClaims).length > 0) {
@@ -205,19 +329,38 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
                     const contentType = headers['content-type'];
                     const contentLength = headers['content-length'];
                     
-                    if (contentType && contentLength && this.options.captureResponseBody) {
+                    if (contentType && contentLength && capture.captureResponseBody) {
                         
-                        // Add metadata about the response body that we detected but couldn't capture
+                        // Add metadata about the response body
                         span.setAttribute('response.body.detected', true);
                         span.setAttribute('response.body.content_type', contentType);
                         if (contentLength) {
                             span.setAttribute('response.body.content_length', parseInt(contentLength, 10));
                         }
-                        span.setAttribute('response.body.capture_limitation', 'undici_stream_not_intercepted');
                     }
                 }
             }
 
+            // Assemble the body from undici body chunks, attached when the request completes
+            const plugin = pluginRequestMap.get(info.request);
+            pluginRequestMap.delete(info.request);
+            if (capture.captureResponseBody || plugin) {
+                const headers = this.extractResponseHeaders(info.response.headers || []);
+                responseBodyMap.set(info.request, {
+                    span,
+                    statusCode: info.response.statusCode,
+                    headers,
+                    plugin,
+                    capture,
+                    contentType: headers['content-type'] || null,
+                    contentLength: parseInt(headers['content-length'] || '0', 10) || 0,
+                    chunks: [],
+                    capturedSize: 0,
+                    totalSize: 0,
+                    chunkReceived: false,
+                });
+            }
+
             // Add response status and content info
             span.setAttribute('http.response.status_code', info.response.statusCode);
             span.setAttribute('http.response.status_text', info.response.statusText || '');
@@ -279,7 +422,17 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
         return headerObj['content-type'] || null;
     }
 
-    private shouldCaptureBody(contentType: string | null, body: any): boolean {
+    private getCapture(url: string): RequestCapture {
+        const rule = findCaptureRule(this.options.capturePolicy, url);
+        return {
+            captureHeaders: rule?.captureHeaders ?? !!this.options.captureHeaders,
+            captureRequestBody: rule?.captureBody ?? !!this.options.captureRequestBody,
+            captureResponseBody: rule?.captureBody ?? !!this.options.captureResponseBody,
+            maxBodySize: rule?.maxBodySize ?? (this.options.maxBodySize || 10000),
+        };
+    }
+
+    private shouldCaptureBody(contentType: string | null, body: any, maxBodySize: number): boolean {
         if (!body) return false;
 
         // Don't capture binary content types
@@ -315,7 +468,7 @@ export class EnhancedUndiciInstrumentation extends UndiciInstrumentation {
 
         // Check size limit
         const bodySize = this.getBodySize(body);
-        if (bodySize > (this.options.maxBodySize || 10000)) {
+        if (bodySize > maxBodySize) {
             return false;
         }
 
@@ -1,83 +1,61 @@
-import { trace, SpanKind, SpanStatusCode, Span } from '@opentelemetry/api';
+import { trace, context, propagation, SpanKind, SpanStatusCode, Span } from '@opentelemetry/api';
+import { isTracingSuppressed } from '@opentelemetry/core';
 import { flatten } from 'flat';
 import { getPackageVersion } from './version.js';
-
-// List of sensitive headers to redact
-const SENSITIVE_HEADERS = [
-    'authorization',
-    'cookie',
-    'set-cookie',
-    'x-api-key',
-    'x-auth-token',
-    'x-access-token',
-    'x-kubiks-key',
-    'bearer',
-    'proxy-authorization',
-    'www-authenticate',
-    'proxy-authenticate',
+import { redactHeaders, redactBody, redactUrl } from './redaction.ts';
+import { HttpPlugin, PluginRequest } from './http-plugins/plugin.ts';
+import { applyPluginError, applyPluginRequest, applyPluginResponse, createPluginRequest, findPlugin } from './http-plugins/runner.ts';
+import { ServerSentEventParser } from './utils/server-sent-events.ts';
+import { CaptureRule, findCaptureRule } from './capture-policy.ts';
+import { isHostOrSubdomain } from './utils/utils.ts';
+
+// Hosts that never receive trace context headers unless explicitly allowed
+const DEFAULT_PROPAGATION_DENY_HOSTS = [
+    'api.stripe.com',
+    'otlp.kubiks.ai',
 ];
 
-// Function to parse JWT token and extract claims
-function parseJWTClaims(token: string): Record<string, any> | null {
-    try {
-        // Remove "Bearer " prefix if present
-        const cleanToken = token.replace(/^Bearer\s+/i, '');
-
-        // JWT tokens have 3 parts separated by dots
-        const parts = cleanToken.split('.');
-        if (parts.length !== 3) {
-            return null;
-        }
-
-        // Decode the payload (second part)
-        const payload = parts[1];
-
-        // Add padding if needed for base64 decoding
-        const padded = payload + '='.repeat((4 - payload.length % 4) % 4);
-
-        // Decode base64url
-        const decoded = Buffer.from(padded.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
-
-        return JSON.parse(decoded);
-    } catch (error) {
-        return null;
-    }
-}
-
-// Function to redact sensitive headers and extract JWT claims
-function redactSensitiveHeaders(headers: Record<string, string>): { redactedHeaders: Record<string, string>, jwtClaims: Record<string, any> } {
-    const redactedHeaders = { ...headers };
-    let jwtClaims: Record<string, any> = {};
-
-    for (const key in redactedHeaders) {
-        const lowerKey = key.toLowerCase();
-        if (SENSITIVE_HEADERS.some(sensitive => lowerKey.includes(sensitive))) {
-            // Check if this is an authorization header and try to parse JWT
-            if (lowerKey.includes('authorization') && redactedHeaders[key]) {
-                const claims = parseJWTClaims(redactedHeaders[key]);
-                if (claims) {
-                    // Add JWT claims as token.* attributes
-                    for (const [claimKey, claimValue] of Object.entries(claims)) {
-                        if (typeof claimValue === 'string' || typeof claimValue === 'number' || typeof claimValue === 'boolean') {
-                            jwtClaims[`token.${claimKey}`] = String(claimValue);
-                        }
-                    }
-                }
-            }
-            redactedHeaders[key] = '[REDACTED]';
-        }
-    }
-
-    return { redactedHeaders, jwtClaims };
-}
+export type HostMatcher = string | RegExp;
 
 interface FetchInterceptorOptions {
     captureRequestBody?: boolean;
     captureResponseBody?: boolean;
     captureHeaders?: boolean;
     maxBodySize?: number;
+    /**
+     * Maximum number of parsed Server-Sent Events kept as a sample on the span
+     * @default 20
+     */
+    maxStreamEvents?: number;
+    /**
+     * Plugins that parse requests and responses of matching hosts, e.g. StripePlugin
+     */
+    plugins?: HttpPlugin[];
+    /**
+     * Inject W3C trace context (traceparent, tracestate, baggage) into outgoing requests
+     * @default true
+     */
+    propagateTraceContext?: boolean;
+    /**
+     * Only propagate trace context to matching hosts. Propagates to every host when empty.
+     * Strings match the host and its subdomains, use a RegExp for anything else.
+     */
+    propagationAllowHosts?: HostMatcher[];
+    /**
+     * Never propagate trace context to matching hosts. Takes precedence over the allow list.
+     * Replaces the defaults, include them to keep them.
+     * @default ['api.stripe.com', 'otlp.kubiks.ai']
+     */
+    propagationDenyHosts?: HostMatcher[];
+    /**
+     * Per host or URL rules: whether to trace requests, capture headers and bodies, and the body size limit
+     */
+    capturePolicy?: CaptureRule[];
 }
 
+// What is recorded for one request, after applying the capture policy
+type RequestCapture = Required<Pick<FetchInterceptorOptions, 'captureRequestBody' | 'captureResponseBody' | 'captureHeaders' | 'maxBodySize'>>;
+
 /**
  * Fetch interceptor that captures request/response bodies
  * This is an alternative to undici instrumentation that provides full body capture
@@ -92,6 +70,7 @@ export class FetchInterceptor {
             captureResponseBody: true,
             captureHeaders: true,
             maxBodySize: 10000,
+            maxStreamEvents: 20,
             ...options
         };
 
@@ -103,16 +82,25 @@ export class FetchInterceptor {
         const self = this;
 
         globalThis.fetch = async function (input: any, init?: any): Promise<Response> {
+            // Exporters suppress tracing for their own requests
+            if (isTracingSuppressed(context.active())) {
+                return self.originalFetch(input, init);
+            }
 
-            const tracer = trace.getTracer('fetch-interceptor', getPackageVersion());
             const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+            const capture = self.getCapture(url);
+            if (!capture) {
+                return self.originalFetch(input, init);
+            }
+
+            const tracer = trace.getTracer('fetch-interceptor', getPackageVersion());
             const method = init?.method || 'GET';
 
             return tracer.startActiveSpan(`fetch ${method}`, {
                 kind: SpanKind.CLIENT,
                 attributes: {
                     'http.method': method,
-                    'http.url': url,
+                    'http.url': redactUrl(url),
                     'http.scheme': new URL(url).protocol.slice(0, -1),
                     'http.host': new URL(url).host,
                     'kubiks.otel.source': 'otel-nextjs',
@@ -120,11 +108,12 @@ export class FetchInterceptor {
                     'kubiks.otel.instrumentation': 'fetch-interceptor',
                 }
             }, async (span: Span) => {
+                let pluginSpan: { plugin: HttpPlugin, request: PluginRequest } | undefined;
                 try {
                     // Capture request details
-                    if (self.options.captureHeaders && init?.headers) {
+                    if (capture.captureHeaders && init?.headers) {
                         const headers = self.normalizeHeaders(init.headers);
-                        const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(headers);
+                        const { redactedHeaders, jwtClaims } = redactHeaders(headers);
                         span.setAttributes(flatten({ request: { headers: redactedHeaders } }));
                         // Add JWT claims as span attributes
                         if (Object.keys(jwtClaims).length > 0) {
@@ -132,16 +121,31 @@ export class FetchInterceptor {
                         }
                     }
 
-                    // Capture request body
-                    if (self.options.captureRequestBody && init?.body) {
-                        const bodyData = await self.captureRequestBody(init.body, init.headers);
+                    const pluginRequest = createPluginRequest('fetch', 'client', method, url, self.normalizeHeaders(init?.headers ?? (input instanceof Request ? input.headers : undefined)));
+                    const plugin = findPlugin(self.options.plugins, pluginRequest);
+
+                    // Capture request body, plugins read it even when the capture policy keeps it off the span
+                    if ((capture.captureRequestBody || plugin?.captureBody) && init?.body) {
+                        pluginRequest.body = await self.captureRequestBody(init.body, capture.maxBodySize, init.headers);
+                        const bodyData = capture.captureRequestBody ? redactBody(pluginRequest.body) : undefined;
                         if (bodyData) {
                             // Store as single attribute, not flattened
                             span.setAttribute('request.body', typeof bodyData === 'string' ? bodyData : JSON.stringify(bodyData));
                         }
                     }
 
+                    if (plugin) {
+                        applyPluginRequest(span, plugin, pluginRequest);
+                        pluginSpan = { plugin, request: pluginRequest };
+                    }
+
+                    // Propagate trace context to downstream services
+                    if (self.shouldPropagateTraceContext(new URL(url).host)) {
+                        init = self.injectTraceContext(input, init);
+                    }
+
                     // Make the actual request
+                    const startTime = Date.now();
                     const response = await self.originalFetch(input, init);
 
                     // Capture response details
@@ -150,12 +154,12 @@ export class FetchInterceptor {
                         'http.status_text': response.statusText,
                     });
 
-                    if (self.options.captureHeaders) {
+                    if (capture.captureHeaders) {
                         const responseHeaders: Record<string, string> = {};
                         response.headers.forEach((value, key) => {
                             responseHeaders[key.toLowerCase()] = value;
                         });
-                        const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(responseHeaders);
+                        const { redactedHeaders, jwtClaims } = redactHeaders(responseHeaders);
                         span.setAttributes(flatten({ response: { headers: redactedHeaders } }));
                         // Add JWT claims as span attributes (for response headers like set-cookie with JWT)
                         if (Object.keys(jwtClaims).length > 0) {
@@ -163,33 +167,87 @@ export class FetchInterceptor {
                         }
                     }
 
-                    // Capture response body (clone the response to avoid consuming the stream)
-                    if (self.options.captureResponseBody) {
-                        const responseClone = response.clone();
-                        const bodyData = await self.captureResponseBody(responseClone);
-                        if (bodyData) {
-                            // Store as single attribute, not flattened
-                            span.setAttribute('response.body', typeof bodyData === 'string' ? bodyData : JSON.stringify(bodyData));
-                        }
-                    }
-
                     span.setStatus({ code: SpanStatusCode.OK });
-                    return response;
+
+                    // The span ends once the caller has consumed the body
+                    return self.traceResponseBody(response, span, startTime, capture, pluginSpan);
 
                 } catch (error) {
                     span.setStatus({
                         code: SpanStatusCode.ERROR,
                         message: error instanceof Error ? error.message : 'Unknown error'
                     });
-                    throw error;
-                } finally {
+                    if (pluginSpan) {
+                        applyPluginError(span, pluginSpan.plugin, error, pluginSpan.request);
+                    }
                     span.end();
+                    throw error;
                 }
             });
         };
     }
 
-    private async captureRequestBody(body: BodyInit, headers?: HeadersInit): Promise<any> {
+    /**
+     * The capture settings for a URL, undefined when its requests aren't traced
+     */
+    private getCapture(url: string): RequestCapture | undefined {
+        const rule = findCaptureRule(this.options.capturePolicy, url);
+        if (rule?.trace === false) {
+            return undefined;
+        }
+        return {
+            captureHeaders: rule?.captureHeaders ?? this.options.captureHeaders!,
+            captureRequestBody: rule?.captureBody ?? this.options.captureRequestBody!,
+            captureResponseBody: rule?.captureBody ?? this.options.captureResponseBody!,
+            maxBodySize: rule?.maxBodySize ?? this.options.maxBodySize!,
+        };
+    }
+
+    private shouldPropagateTraceContext(host: string): boolean {
+        if (this.options.propagateTraceContext === false) {
+            return false;
+        }
+        if (matchesHost(host, this.options.propagationDenyHosts ?? DEFAULT_PROPAGATION_DENY_HOSTS)) {
+            return false;
+        }
+        const allowHosts = this.options.propagationAllowHosts ?? [];
+        return allowHosts.length === 0 || matchesHost(host, allowHosts);
+    }
+
+    /**
+     * Returns a copy of `init` whose headers carry the active trace context.
+     * The caller's headers object is never mutated.
+     */
+    private injectTraceContext(input: any, init?: any): any {
+        const source: HeadersInit | undefined = init?.headers ?? (input instanceof Request ? input.headers : undefined);
+        let headers: HeadersInit;
+
+        if (source instanceof Headers) {
+            const copy = new Headers(source);
+            propagation.inject(context.active(), copy, {
+                set(carrier: Headers, key: string, value: string) {
+                    carrier.set(key, value);
+                }
+            });
+            headers = copy;
+        } else if (Array.isArray(source)) {
+            const carrier: Record<string, string> = {};
+            propagation.inject(context.active(), carrier);
+            const injectedKeys = Object.keys(carrier);
+            headers = [
+                ...source.filter(([key]) => !injectedKeys.includes(key.toLowerCase())),
+                ...Object.entries(carrier),
+            ];
+        } else {
+            const copy: Record<string, string> = { ...(source as Record<string, string> || {}) };
+            propagation.inject(context.active(), copy);
+            headers = copy;
+        }
+
+        return { ...init, headers };
+    }
+
+    private async captureRequestBody(body: BodyInit, maxBodySize: number, headers?: HeadersInit): Promise<any> {
         try {
             const contentType = this.getContentType(headers);
 
@@ -223,7 +281,7 @@ export class FetchInterceptor {
             }
 
             if (typeof body === 'string') {
-                if (body.length > this.options.maxBodySize!) {
+                if (body.length > maxBodySize) {
                     return { _truncated: true, _size: body.length, _preview: body.substring(0, 100) };
                 }
                 return this.parseBodyText(body, contentType);
@@ -235,40 +293,185 @@ export class FetchInterceptor {
         }
     }
 
-    private async captureResponseBody(response: Response): Promise<any> {
-        try {
-            const contentType = response.headers.get('content-type') || '';
-            const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+    /**
+     * Returns a response whose body records chunks as the caller reads them, so the fetch resolves
+     * as soon as headers arrive. The span ends when the body completes, errors or is cancelled.
+     * Server-Sent Events and chunked responses also record stream timings and a sample of the parsed events.
+     */
+    private traceResponseBody(response: Response, span: Span, startTime: number, capture: RequestCapture, pluginSpan?: { plugin: HttpPlugin, request: PluginRequest }): Response {
+        if (!response.body) {
+            if (pluginSpan) {
+                applyPluginResponse(span, pluginSpan.plugin, this.pluginResponse(response), pluginSpan.request);
+            }
+            span.end();
+            return response;
+        }
 
-            // Skip large responses
-            if (contentLength > this.options.maxBodySize!) {
-                return {
-                    _truncated: true,
-                    _size: contentLength,
-                    _note: `Response too large (${contentLength} bytes)`
-                };
+        const contentType = response.headers.get('content-type') || '';
+        const isEventStream = contentType.toLowerCase().includes('text/event-stream');
+        const isStreaming = isEventStream || (response.headers.get('transfer-encoding') || '').toLowerCase().includes('chunked');
+        const events = isEventStream ? new ServerSentEventParser(this.options.maxStreamEvents!) : undefined;
+        let chunkCount = 0;
+        let firstByteAt: number | undefined;
+        let firstEventAt: number | undefined;
+
+        // The event sample replaces the raw body of event streams, plugins still see the whole stream
+        const captureBody = ((capture.captureResponseBody && !isEventStream) || pluginSpan?.plugin.captureBody) && !this.isBinaryContentType(contentType);
+        const maxBodySize = capture.maxBodySize;
+        const chunks: Uint8Array[] = [];
+        let capturedSize = 0;
+        let totalSize = 0;
+        let ended = false;
+
+        const end = (outcome: 'complete' | 'cancelled' | 'error' | 'not_consumed', error?: unknown) => {
+            if (ended) {
+                return;
+            }
+            ended = true;
+            unconsumedResponses?.unregister(chunks);
+
+            span.setAttribute('response.stream.outcome', outcome);
+            if (isStreaming) {
+                span.setAttributes({
+                    'response.stream.chunk_count': chunkCount,
+                    'response.stream.duration_ms': Date.now() - startTime,
+                    ...(firstByteAt !== undefined ? { 'response.stream.time_to_first_byte_ms': firstByteAt - startTime } : {}),
+                });
+            }
+            if (events) {
+                if (outcome === 'complete') {
+                    // The last event may not be followed by a blank line
+                    const previousCount = events.count;
+                    events.end();
+                    if (previousCount === 0 && events.count > 0) {
+                        firstEventAt = Date.now();
+                        span.addEvent('first_event');
+                    }
+                }
+                span.setAttributes({
+                    'response.stream.event_count': events.count,
+                    ...(firstEventAt !== undefined ? { 'response.stream.time_to_first_event_ms': firstEventAt - startTime } : {}),
+                });
+                if (capture.captureResponseBody && events.sample.length > 0) {
+                    span.setAttribute('response.stream.events', JSON.stringify(events.sample.map(event => ({
+                        ...event,
+                        data: redactBody(this.parseBodyText(event.data)),
+                    }))));
+                }
             }
+            const text = captureBody ? decodeChunks(chunks, capturedSize) : '';
+            if (capture.captureResponseBody && !isEventStream && outcome !== 'not_consumed') {
+                const bodyData = redactBody(this.formatResponseBody(text, totalSize, contentType, maxBodySize));
+                if (bodyData) {
+                    // Store as single attribute, not flattened
+                    span.setAttribute('response.body', typeof bodyData === 'string' ? bodyData : JSON.stringify(bodyData));
+                }
+            }
+            if (error) {
+                span.setStatus({
+                    code: SpanStatusCode.ERROR,
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+                if (pluginSpan) {
+                    applyPluginError(span, pluginSpan.plugin, error, pluginSpan.request);
+                }
+            } else if (pluginSpan && outcome !== 'not_consumed') {
+                // Plugins only see complete bodies
+                const complete = outcome === 'complete' && text.length > 0 && totalSize <= maxBodySize;
+                const parsedBody = complete ? this.parseBodyText(text, contentType) : undefined;
+                applyPluginResponse(span, pluginSpan.plugin, this.pluginResponse(response, parsedBody), pluginSpan.request);
+            }
+            span.end();
+        };
 
+        const reader = response.body.getReader();
+        // No read-ahead: chunks are only pulled from the network when the caller reads, so unread bodies stay unread
+        const body = new ReadableStream<Uint8Array>({
+            async pull(controller) {
+                try {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        controller.close();
+                        end('complete');
+                        return;
+                    }
+                    totalSize += value.byteLength;
+                    chunkCount++;
+                    if (firstByteAt === undefined) {
+                        firstByteAt = Date.now();
+                        if (isStreaming) {
+                            span.addEvent('first_byte');
+                        }
+                    }
+                    if (events) {
+                        const previousCount = events.count;
+                        events.push(value);
+                        if (previousCount === 0 && events.count > 0) {
+                            firstEventAt = Date.now();
+                            span.addEvent('first_event');
+                        }
+                    }
+                    if (captureBody && capturedSize < maxBodySize) {
+                        const chunk = value.subarray(0, maxBodySize - capturedSize);
+                        chunks.push(chunk.slice());
+                        capturedSize += chunk.byteLength;
+                    }
+                    controller.enqueue(value);
+                } catch (error) {
+                    controller.error(error);
+                    end('error', error);
+                }
+            },
+            cancel(reason) {
+                end('cancelled');
+                return reader.cancel(reason);
+            },
+        }, { highWaterMark: 0 });
+
+        const traced = new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+        });
+        Object.defineProperties(traced, {
+            url: { value: response.url },
+            redirected: { value: response.redirected },
+            type: { value: response.type },
+        });
+
+        // End the span if the caller drops the response without reading the body
+        unconsumedResponses?.register(traced, () => end('not_consumed'), chunks);
+        return traced;
+    }
+
+    private pluginResponse(response: Response, body?: unknown) {
+        return { statusCode: response.status, headers: this.normalizeHeaders(response.headers), body };
+    }
+
+    private formatResponseBody(text: string, totalSize: number, contentType: string, maxBodySize: number): any {
+        try {
             // Skip binary content
             if (this.isBinaryContentType(contentType)) {
                 return {
                     _type: 'Binary',
                     _contentType: contentType,
-                    _size: contentLength,
+                    _size: totalSize,
                     _note: 'Binary content not captured'
                 };
             }
 
-            const text = await response.text();
-
-            if (text.length > this.options.maxBodySize!) {
+            if (totalSize > maxBodySize) {
                 return {
                     _truncated: true,
-                    _size: text.length,
+                    _size: totalSize,
                     _preview: text.substring(0, 100)
                 };
             }
 
+            if (text.length === 0) {
+                return undefined;
+            }
+
             return this.parseBodyText(text, contentType);
         } catch (error) {
             return { _error: 'Failed to capture response body', _message: error instanceof Error ? error.message : 'Unknown error' };
@@ -288,7 +491,7 @@ export class FetchInterceptor {
 
             const lowerContentType = contentType.toLowerCase();
 
-            if (lowerContentType.includes('application/json')) {
+            if (lowerContentType.includes('application/json') || lowerContentType.includes('application/x-amz-json')) {
                 return JSON.parse(text);
             } else if (lowerContentType.includes('application/x-www-form-urlencoded')) {
                 return Object.fromEntries(new URLSearchParams(text));
@@ -363,6 +566,26 @@ export class FetchInterceptor {
     }
 }
 
+function decodeChunks(chunks: Uint8Array[], size: number): string {
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return new TextDecoder().decode(bytes);
+}
+
+// Ends the spans of responses that are garbage collected before their body was read
+const unconsumedResponses = typeof FinalizationRegistry !== 'undefined'
+    ? new FinalizationRegistry<() => void>(end => end())
+    : undefined;
+
+// Strings match the host and its subdomains, patterns anything looser
+function matchesHost(host: string, matchers: HostMatcher[]): boolean {
+    return matchers.some(matcher => typeof matcher === 'string' ? isHostOrSubdomain(host, matcher) : matcher.test(host));
+}
+
 // Auto-initialize if used in Node.js environment
 let interceptorInstance: FetchInterceptor | null = null;
 
@@ -0,0 +1,260 @@
+import { asObject, asString, Json, safeDecode } from "../utils/utils.ts";
+import { HttpPlugin, PluginError, PluginRequest, PluginResponse } from "./plugin.ts";
+
+// Host prefixes of the JSON and query protocol services, keyed to their SDK service ids
+const SERVICES: Record<string, string> = {
+    dynamodb: 'DynamoDB',
+    sqs: 'SQS',
+    sns: 'SNS',
+    lambda: 'Lambda',
+    events: 'EventBridge',
+    states: 'SFN',
+};
+
+const S3_OBJECT_METHODS: Record<string, string> = { GET: 'GetObject', PUT: 'PutObject', DELETE: 'DeleteObject', HEAD: 'HeadObject' };
+const S3_MULTIPART_METHODS: Record<string, string> = { PUT: 'UploadPart', POST: 'CompleteMultipartUpload', DELETE: 'AbortMultipartUpload', GET: 'ListParts' };
+const S3_BUCKET_METHODS: Record<string, string> = { PUT: 'CreateBucket', DELETE: 'DeleteBucket', HEAD: 'HeadBucket' };
+
+type AwsCall = {
+    service: string,
+    method?: string,
+    region?: string,
+    // S3 buckets are in the host for virtual-hosted-style requests
+    bucket?: string,
+    key?: string,
+}
+
+/**
+ * Records `rpc.*` and resource attributes for AWS API calls made by the AWS SDK or plain HTTP
+ */
+export class AwsPlugin extends HttpPlugin implements HttpPlugin {
+    captureBody = true
+    name = 'aws'
+
+    matches(request: PluginRequest): boolean {
+        return request.kind === 'client' && !!parseAwsHost(request.host);
+    }
+
+    getSpanName(request: PluginRequest) {
+        const call = getAwsCall(request);
+        if (!call) {
+            return undefined;
+        }
+        return call.method ? `${call.service}.${call.method}` : call.service;
+    }
+
+    parseRequest(request: PluginRequest) {
+        const call = getAwsCall(request);
+        if (!call) {
+            return undefined;
+        }
+
+        return {
+            rpc: {
+                system: 'aws-api',
+                service: call.service,
+                method: call.method,
+            },
+            cloud: { region: call.region },
+            ...getResourceAttributes(call, request),
+        }
+    }
+
+    parseIncomingResponse(response: PluginResponse) {
+        return {
+            aws: {
+                request_id: response.headers['x-amzn-requestid'] || response.headers['x-amz-request-id'],
+            }
+        }
+    }
+
+    classifyError(response: PluginResponse): PluginError | undefined {
+        if (response.statusCode < 400) {
+            return undefined;
+        }
+        const body = asObject(response.body);
+        // JSON protocols send `__type`, query protocols and S3 send XML with a `<Code>`
+        const type = response.headers['x-amzn-errortype']?.split(':')[0]
+            || asString(body?.__type)?.split('#').pop()
+            || (typeof response.body === 'string' ? response.body.match(/<Code>([^<]+)<\/Code>/)?.[1] : undefined);
+        const message = asString(body?.message) || asString(body?.Message)
+            || (typeof response.body === 'string' ? response.body.match(/<Message>([^<]+)<\/Message>/)?.[1] : undefined);
+        return { type: type || `http_${response.statusCode}`, message };
+    }
+}
+
+/**
+ * `dynamodb.us-east-1.amazonaws.com` -> DynamoDB in us-east-1, `my-bucket.s3.eu-west-1.amazonaws.com` -> S3 with a bucket
+ */
+function parseAwsHost(host: string): AwsCall | undefined {
+    const match = host.split(':')[0].match(/^(.+)\.amazonaws\.com(\.cn)?$/);
+    if (!match) {
+        return undefined;
+    }
+    const labels = match[1].split('.');
+
+    const s3Index = labels.findIndex(label => /^s3($|-)/.test(label) && !label.startsWith('s3-accesspoint'));
+    if (s3Index !== -1) {
+        const label = labels[s3Index];
+        const rest = labels.slice(s3Index + 1).filter(label => label !== 'dualstack');
+        return {
+            service: 'S3',
+            // `s3-us-west-2` is the legacy dash-region style
+            region: label.startsWith('s3-') ? label.slice(3) : rest[0],
+            bucket: s3Index > 0 ? labels.slice(0, s3Index).join('.') : undefined,
+        };
+    }
+
+    const service = SERVICES[labels[0].replace(/-fips$/, '')];
+    return service ? { service, region: labels[1] } : undefined;
+}
+
+function getAwsCall(request: PluginRequest): AwsCall | undefined {
+    const call = parseAwsHost(request.host);
+    if (!call) {
+        return undefined;
+    }
+
+    if (call.service === 'S3') {
+        return { ...call, ...parseS3Request(request, call.bucket) };
+    }
+    if (call.service === 'Lambda') {
+        return { ...call, method: parseLambdaPath(request).method };
+    }
+
+    // `DynamoDB_20120810.PutItem`, `AmazonSQS.SendMessage`
+    const target = request.headers['x-amz-target'];
+    if (target) {
+        return { ...call, method: target.split('.').pop() };
+    }
+    // Query protocol services send the action in a form body or the query string
+    const action = asObject(request.body)?.Action ?? getQueryParams(request.url).get('Action');
+    return { ...call, method: asString(action) };
+}
+
+function getResourceAttributes(call: AwsCall, request: PluginRequest): Record<string, unknown> {
+    const body = asObject(request.body) || {};
+    switch (call.service) {
+        case 'DynamoDB': {
+            const tableNames = typeof body.TableName === 'string'
+                ? [body.TableName]
+                : Object.keys(asObject(body.RequestItems) || {});
+            return {
+                aws: {
+                    dynamodb: {
+                        table_names: tableNames.length > 0 ? tableNames : undefined,
+                        index_name: asString(body.IndexName),
+                    }
+                }
+            }
+        }
+        case 'SQS': {
+            const queueUrl = asString(body.QueueUrl) ?? getQueryParams(request.url).get('QueueUrl') ?? undefined;
+            return {
+                aws: { sqs: { queue_url: queueUrl } },
+                messaging: { system: 'aws_sqs', destination: { name: queueUrl?.split('/').pop() || asString(body.QueueName) } },
+            }
+        }
+        case 'SNS': {
+            const topicArn = asString(body.TopicArn) ?? asString(body.TargetArn);
+            return {
+                aws: { sns: { topic_arn: topicArn } },
+                messaging: { system: 'aws_sns', destination: { name: topicArn?.split(':').pop() } },
+            }
+        }
+        case 'S3':
+            return {
+                aws: { s3: { bucket: call.bucket, key: call.key } },
+            }
+        case 'Lambda': {
+            // A name, `name:qualifier` or `arn:aws:lambda:region:account:function:name[:qualifier]`
+            const functionName = parseLambdaPath(request).functionName;
+            const isArn = functionName?.startsWith('arn:');
+            return {
+                faas: {
+                    invoked_name: isArn ? functionName?.split(':')[6] : functionName?.split(':')[0],
+                    invoked_provider: 'aws',
+                    invoked_region: call.region,
+                },
+                aws: { lambda: { invoked_arn: isArn ? functionName : undefined } },
+            }
+        }
+        case 'EventBridge': {
+            const entries: Json[] = Array.isArray(body.Entries) ? body.Entries : [];
+            const eventBuses = [...new Set(entries.map(entry => entry?.EventBusName || 'default'))];
+            return {
+                aws: { eventbridge: { event_buses: eventBuses.length > 0 ? eventBuses : undefined, rule: asString(body.Name) } },
+            }
+        }
+        case 'SFN':
+            return {
+                aws: {
+                    step_functions: {
+                        state_machine: { arn: asString(body.stateMachineArn) },
+                        execution: { arn: asString(body.executionArn) },
+                    }
+                }
+            }
+        default:
+            return {};
+    }
+}
+
+/**
+ * Derive the S3 operation from the method, path and sub-resource, e.g. `PUT /bucket/key` -> PutObject
+ */
+function parseS3Request(request: PluginRequest, hostBucket: string | undefined): { method?: string, bucket?: string, key?: string } {
+    const segments = request.path.split('?')[0].split('/').filter(segment => segment.length > 0).map(safeDecode);
+    // Path-style requests carry the bucket as the first segment
+    const bucket = hostBucket ?? segments.shift();
+    const key = segments.length > 0 ? segments.join('/') : undefined;
+    const query = getQueryParams(request.url);
+
+    let method: string | undefined;
+    if (!bucket) {
+        method = request.method === 'GET' ? 'ListBuckets' : undefined;
+    } else if (key) {
+        if (query.has('uploads')) {
+            method = 'CreateMultipartUpload';
+        } else if (query.has('uploadId')) {
+            method = S3_MULTIPART_METHODS[request.method];
+        } else if (request.method === 'PUT' && request.headers['x-amz-copy-source']) {
+            method = 'CopyObject';
+        } else {
+            method = S3_OBJECT_METHODS[request.method];
+        }
+    } else if (request.method === 'POST' && query.has('delete')) {
+        method = 'DeleteObjects';
+    } else if (request.method === 'GET') {
+        method = query.get('list-type') === '2' ? 'ListObjectsV2' : 'ListObjects';
+    } else {
+        method = S3_BUCKET_METHODS[request.method];
+    }
+    return { method, bucket, key };
+}
+
+/**
+ * `/2015-03-31/functions/my-function/invocations` -> Invoke on my-function
+ */
+function parseLambdaPath(request: PluginRequest): { method?: string, functionName?: string } {
+    const match = request.path.split('?')[0].match(/^\/[^/]+\/functions\/([^/]+)(?:\/(\w+))?/);
+    if (!match) {
+        return {};
+    }
+    const functionName = safeDecode(match[1]);
+    if (match[2] === 'invocations') {
+        return { method: 'Invoke', functionName };
+    }
+    if (match[2] === 'invoke-async') {
+        return { method: 'InvokeAsync', functionName };
+    }
+    return { method: !match[2] && request.method === 'GET' ? 'GetFunction' : undefined, functionName };
+}
+
+function getQueryParams(url: string): URLSearchParams {
+    try {
+        return new URL(url).searchParams;
+    } catch (e) {
+        return new URLSearchParams();
+    }
+}
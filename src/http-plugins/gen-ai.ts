@@ -0,0 +1,400 @@
+import { redactBody } from "../redaction.ts";
+import { parseServerSentEvents } from "../utils/server-sent-events.ts";
+import { asNumber, asObject, asString, isHostOrSubdomain, Json } from "../utils/utils.ts";
+import { HttpPlugin, PluginError, PluginRequest, PluginResponse, PluginSpanEvent } from "./plugin.ts";
+
+/**
+ * The request and response shapes a provider speaks
+ */
+export type GenAiApiFormat = 'openai' | 'anthropic' | 'gemini';
+
+export type GenAiProvider = {
+    /**
+     * A host, also matching its subdomains, or a pattern tested against the host
+     */
+    host: string | RegExp,
+    /**
+     * Recorded as `gen_ai.system`
+     */
+    system: string,
+    /**
+     * @default 'openai'
+     */
+    format?: GenAiApiFormat,
+}
+
+export type GenAiPluginOptions = {
+    /**
+     * Record prompts and completions as span events, after redaction
+     * @default false
+     */
+    captureContent?: boolean,
+    /**
+     * Additional providers, e.g. a self-hosted OpenAI-compatible server
+     */
+    providers?: GenAiProvider[],
+}
+
+const DEFAULT_PROVIDERS: GenAiProvider[] = [
+    { host: 'api.openai.com', system: 'openai' },
+    { host: /\.openai\.azure\.com(:\d+)?$/, system: 'az.ai.openai' },
+    { host: 'api.anthropic.com', system: 'anthropic', format: 'anthropic' },
+    { host: 'generativelanguage.googleapis.com', system: 'gcp.gemini', format: 'gemini' },
+    { host: /(^|[.-])aiplatform\.googleapis\.com(:\d+)?$/, system: 'gcp.vertex_ai', format: 'gemini' },
+    // OpenAI-compatible APIs
+    { host: 'api.groq.com', system: 'groq' },
+    { host: 'api.mistral.ai', system: 'mistral_ai' },
+    { host: 'api.deepseek.com', system: 'deepseek' },
+    { host: 'api.x.ai', system: 'xai' },
+    { host: 'api.together.xyz', system: 'together' },
+    { host: 'api.perplexity.ai', system: 'perplexity' },
+    { host: 'openrouter.ai', system: 'openrouter' },
+];
+
+type GenAiOperation = 'chat' | 'text_completion' | 'embeddings';
+
+type GenAiCall = {
+    system: string,
+    format: GenAiApiFormat,
+    operation: GenAiOperation,
+    // Gemini carries the model in the path
+    pathModel?: string,
+}
+
+/**
+ * What a response reports, whether it arrived as one JSON body or as a stream of chunks
+ */
+type GenAiResult = {
+    id?: string,
+    model?: string,
+    finishReasons?: string[],
+    inputTokens?: number,
+    outputTokens?: number,
+    completion?: unknown,
+}
+
+/**
+ * Records OpenTelemetry `gen_ai.*` attributes for calls to OpenAI, Anthropic, Gemini and OpenAI-compatible APIs
+ */
+export class GenAiPlugin extends HttpPlugin implements HttpPlugin {
+    captureBody = true
+    name = 'gen-ai'
+    private providers: GenAiProvider[];
+    private captureContent: boolean;
+
+    constructor(options: GenAiPluginOptions = {}) {
+        super();
+        this.providers = [...(options.providers || []), ...DEFAULT_PROVIDERS];
+        this.captureContent = options.captureContent || false;
+    }
+
+    matches(request: PluginRequest): boolean {
+        return request.kind === 'client' && !!this.getCall(request);
+    }
+
+    getSpanName(request: PluginRequest) {
+        const call = this.getCall(request);
+        if (!call) {
+            return undefined;
+        }
+        const model = getRequestModel(call, request);
+        return model ? `${call.operation} ${model}` : call.operation;
+    }
+
+    parseRequest(request: PluginRequest) {
+        const call = this.getCall(request);
+        if (!call) {
+            return undefined;
+        }
+        const body = asObject(request.body) || {};
+        const config = call.format === 'gemini' ? asObject(body.generationConfig) || {} : body;
+
+        return {
+            gen_ai: {
+                system: call.system,
+                operation: { name: call.operation },
+                request: {
+                    model: getRequestModel(call, request),
+                    temperature: asNumber(config.temperature),
+                    top_p: asNumber(config.top_p ?? config.topP),
+                    top_k: asNumber(config.top_k ?? config.topK),
+                    max_tokens: asNumber(config.max_tokens ?? config.max_completion_tokens ?? config.max_output_tokens ?? config.maxOutputTokens),
+                },
+            }
+        }
+    }
+
+    parseIncomingResponse(response: PluginResponse, request: PluginRequest) {
+        const call = this.getCall(request);
+        const result = call && parseResult(call, response.body);
+        if (!result) {
+            return undefined;
+        }
+
+        return {
+            gen_ai: {
+                response: {
+                    id: result.id,
+                    model: result.model,
+                    finish_reasons: result.finishReasons?.length ? result.finishReasons : undefined,
+                },
+                usage: {
+                    input_tokens: result.inputTokens,
+                    output_tokens: result.outputTokens,
+                },
+            }
+        }
+    }
+
+    classifyError(response: PluginResponse): PluginError | undefined {
+        if (response.statusCode < 400) {
+            return undefined;
+        }
+        // { error: { type } } for OpenAI and Anthropic, { error: { status } } for Gemini
+        const error = asObject(asObject(response.body)?.error);
+        const type = error?.type || error?.status || error?.code;
+        return {
+            type: typeof type === 'string' ? type : `http_${response.statusCode}`,
+            message: typeof error?.message === 'string' ? error.message : undefined,
+        };
+    }
+
+    getSpanEvents(request: PluginRequest, response?: PluginResponse): PluginSpanEvent[] | undefined {
+        const call = this.captureContent ? this.getCall(request) : undefined;
+        if (!call || call.operation === 'embeddings') {
+            return undefined;
+        }
+
+        if (!response) {
+            const prompt = getPrompt(call, asObject(request.body));
+            return prompt === undefined ? undefined : [{
+                name: 'gen_ai.content.prompt',
+                attributes: { 'gen_ai.prompt': JSON.stringify(redactBody(prompt)) },
+            }];
+        }
+
+        const completion = response.statusCode < 400 ? parseResult(call, response.body)?.completion : undefined;
+        return completion === undefined ? undefined : [{
+            name: 'gen_ai.content.completion',
+            attributes: { 'gen_ai.completion': JSON.stringify(redactBody(completion)) },
+        }];
+    }
+
+    private getCall(request: PluginRequest): GenAiCall | undefined {
+        const provider = this.providers.find(provider => typeof provider.host === 'string' ? isHostOrSubdomain(request.host, provider.host) : provider.host.test(request.host));
+        if (!provider) {
+            return undefined;
+        }
+
+        const format = provider.format || 'openai';
+        const path = request.path.split('?')[0];
+        if (format === 'gemini') {
+            // `/v1beta/models/gemini-1.5-pro:streamGenerateContent`
+            const match = path.match(/\/models\/([^/:]+):(\w+)$/);
+            const operation = match && (/^(stream)?generateContent$/i.test(match[2]) ? 'chat' : /embedContents?$/i.test(match[2]) ? 'embeddings' : undefined);
+            return operation ? { system: provider.system, format, operation, pathModel: match[1] } : undefined;
+        }
+
+        const operation = getOperation(format, path);
+        return operation ? { system: provider.system, format, operation } : undefined;
+    }
+}
+
+function getOperation(format: GenAiApiFormat, path: string): GenAiOperation | undefined {
+    if (format === 'anthropic') {
+        return path.endsWith('/messages') ? 'chat' : path.endsWith('/complete') ? 'text_completion' : undefined;
+    }
+    if (path.endsWith('/chat/completions') || path.endsWith('/responses')) {
+        return 'chat';
+    }
+    if (path.endsWith('/completions')) {
+        return 'text_completion';
+    }
+    if (path.endsWith('/embeddings')) {
+        return 'embeddings';
+    }
+}
+
+function getRequestModel(call: GenAiCall, request: PluginRequest): string | undefined {
+    const model = call.pathModel ?? asObject(request.body)?.model;
+    return typeof model === 'string' ? model : undefined;
+}
+
+function getPrompt(call: GenAiCall, body: Json | undefined): unknown {
+    if (!body) {
+        return undefined;
+    }
+    switch (call.format) {
+        case 'anthropic':
+            return body.system === undefined ? body.messages ?? body.prompt : [{ role: 'system', content: body.system }, ...(body.messages || [])];
+        case 'gemini':
+            return body.systemInstruction === undefined ? body.contents : [{ role: 'system', ...body.systemInstruction }, ...(body.contents || [])];
+        default:
+            return body.instructions === undefined
+                ? body.messages ?? body.input ?? body.prompt
+                : [{ role: 'system', content: body.instructions }, ...(Array.isArray(body.input) ? body.input : [{ role: 'user', content: body.input }])];
+    }
+}
+
+/**
+ * Read a response body, which is a JSON object, Server-Sent Events text or, for Gemini, a JSON array of chunks
+ */
+function parseResult(call: GenAiCall, body: unknown): GenAiResult | undefined {
+    let chunks: Json[] | undefined;
+    if (typeof body === 'string') {
+        chunks = parseServerSentEvents(body)
+            .filter(event => event.data !== '[DONE]')
+            .map(event => safeParse(event.data))
+            .filter((chunk): chunk is Json => !!asObject(chunk));
+    } else if (Array.isArray(body)) {
+        chunks = body.filter((chunk): chunk is Json => !!asObject(chunk));
+    }
+
+    if (chunks) {
+        if (chunks.length === 0) {
+            return undefined;
+        }
+        switch (call.format) {
+            case 'anthropic': return parseAnthropicStream(chunks);
+            case 'gemini': return parseGeminiStream(chunks);
+            default: return parseOpenAiStream(chunks);
+        }
+    }
+
+    const json = asObject(body);
+    if (!json) {
+        return undefined;
+    }
+    switch (call.format) {
+        case 'anthropic': return parseAnthropic(json);
+        case 'gemini': return parseGemini(json);
+        default: return parseOpenAi(json);
+    }
+}
+
+function parseOpenAi(body: Json): GenAiResult {
+    const usage = asObject(body.usage);
+    // The Responses API reports a status and output items instead of choices
+    const choices: Json[] = Array.isArray(body.choices) ? body.choices : [];
+    return {
+        id: asString(body.id),
+        model: asString(body.model),
+        finishReasons: Array.isArray(body.choices) ? strings(choices.map(choice => choice.finish_reason)) : strings([body.status]),
+        inputTokens: asNumber(usage?.prompt_tokens ?? usage?.input_tokens),
+        outputTokens: asNumber(usage?.completion_tokens ?? usage?.output_tokens),
+        completion: Array.isArray(body.choices) ? choices.map(choice => choice.message ?? choice.text) : body.output,
+    };
+}
+
+function parseOpenAiStream(chunks: Json[]): GenAiResult {
+    // The Responses API ends its stream with the whole response
+    const final = chunks.find(chunk => /^response\.(completed|incomplete|failed)$/.test(chunk.type) && asObject(chunk.response));
+    if (final) {
+        return parseOpenAi(final.response);
+    }
+
+    const result: GenAiResult = {};
+    const choices: { content: string, finishReason?: string }[] = [];
+    for (const chunk of chunks) {
+        result.id ??= asString(chunk.id);
+        result.model ??= asString(chunk.model);
+        const usage = asObject(chunk.usage);
+        if (usage) {
+            result.inputTokens = asNumber(usage.prompt_tokens);
+            result.outputTokens = asNumber(usage.completion_tokens);
+        }
+        for (const choice of Array.isArray(chunk.choices) ? chunk.choices : []) {
+            const index = typeof choice.index === 'number' ? choice.index : 0;
+            const current = choices[index] ??= { content: '' };
+            current.content += asString(choice.delta?.content) ?? asString(choice.text) ?? '';
+            current.finishReason = asString(choice.finish_reason) ?? current.finishReason;
+        }
+    }
+    result.finishReasons = strings(choices.map(choice => choice?.finishReason));
+    result.completion = choices.map(choice => ({ role: 'assistant', content: choice?.content ?? '' }));
+    return result;
+}
+
+function parseAnthropic(body: Json): GenAiResult {
+    const usage = asObject(body.usage);
+    return {
+        id: asString(body.id),
+        model: asString(body.model),
+        finishReasons: strings([body.stop_reason]),
+        inputTokens: asNumber(usage?.input_tokens),
+        outputTokens: asNumber(usage?.output_tokens),
+        completion: body.content === undefined ? body.completion : [{ role: asString(body.role) || 'assistant', content: body.content }],
+    };
+}
+
+function parseAnthropicStream(chunks: Json[]): GenAiResult {
+    const result: GenAiResult = {};
+    let content = '';
+    for (const chunk of chunks) {
+        if (chunk.type === 'message_start') {
+            const message = asObject(chunk.message);
+            result.id = asString(message?.id);
+            result.model = asString(message?.model);
+            result.inputTokens = asNumber(message?.usage?.input_tokens);
+            result.outputTokens = asNumber(message?.usage?.output_tokens);
+        } else if (chunk.type === 'content_block_delta') {
+            content += asString(chunk.delta?.text) ?? '';
+        } else if (chunk.type === 'message_delta') {
+            result.finishReasons = strings([chunk.delta?.stop_reason]);
+            // Output tokens are cumulative
+            result.outputTokens = asNumber(chunk.usage?.output_tokens) ?? result.outputTokens;
+        }
+    }
+    result.completion = [{ role: 'assistant', content }];
+    return result;
+}
+
+function parseGemini(body: Json): GenAiResult {
+    const usage = asObject(body.usageMetadata);
+    const candidates: Json[] = Array.isArray(body.candidates) ? body.candidates : [];
+    return {
+        id: asString(body.responseId),
+        model: asString(body.modelVersion),
+        finishReasons: strings(candidates.map(candidate => candidate.finishReason)),
+        inputTokens: asNumber(usage?.promptTokenCount),
+        outputTokens: asNumber(usage?.candidatesTokenCount),
+        completion: candidates.map(candidate => candidate.content),
+    };
+}
+
+function parseGeminiStream(chunks: Json[]): GenAiResult {
+    const result: GenAiResult = {};
+    const candidates: { content: string, finishReason?: string }[] = [];
+    for (const chunk of chunks) {
+        const parsed = parseGemini(chunk);
+        result.id ??= parsed.id;
+        result.model ??= parsed.model;
+        // Every chunk reports the usage so far
+        result.inputTokens = parsed.inputTokens ?? result.inputTokens;
+        result.outputTokens = parsed.outputTokens ?? result.outputTokens;
+        for (const candidate of Array.isArray(chunk.candidates) ? chunk.candidates : []) {
+            const index = typeof candidate.index === 'number' ? candidate.index : 0;
+            const current = candidates[index] ??= { content: '' };
+            for (const part of Array.isArray(candidate.content?.parts) ? candidate.content.parts : []) {
+                current.content += asString(part?.text) ?? '';
+            }
+            current.finishReason = asString(candidate.finishReason) ?? current.finishReason;
+        }
+    }
+    result.finishReasons = strings(candidates.map(candidate => candidate?.finishReason));
+    result.completion = candidates.map(candidate => ({ role: 'model', parts: [{ text: candidate?.content ?? '' }] }));
+    return result;
+}
+
+function safeParse(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+
+function strings(values: unknown[]): string[] {
+    return values.filter((value): value is string => typeof value === 'string');
+}
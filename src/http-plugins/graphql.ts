@@ -0,0 +1,298 @@
+import { HttpPlugin, PluginError, PluginRequest, PluginResponse } from "./plugin.ts";
+
+export type GraphQLPluginOptions = {
+    /**
+     * Paths that serve GraphQL, matched before the request body has been read
+     * @default [/\/graphql(\.json)?$/]
+     */
+    paths?: (string | RegExp)[],
+}
+
+type OperationType = 'query' | 'mutation' | 'subscription';
+
+type GraphQLOperation = {
+    type?: OperationType,
+    name?: string,
+    fields: string[],
+    persistedQueryHash?: string,
+}
+
+type GraphQLError = {
+    message?: string,
+    extensions?: { code?: string },
+}
+
+/**
+ * Names GraphQL spans after the operation, e.g. `query GetUser`, and records `graphql.*` attributes
+ * for incoming and outgoing requests
+ */
+export class GraphQLPlugin extends HttpPlugin implements HttpPlugin {
+    captureBody = true
+    name = 'graphql'
+    private paths: (string | RegExp)[];
+
+    constructor(options: GraphQLPluginOptions = {}) {
+        super();
+        this.paths = options.paths || [/\/graphql(\.json)?$/];
+    }
+
+    matches(request: PluginRequest): boolean {
+        if (request.method !== 'POST' && request.method !== 'GET') {
+            return false;
+        }
+        // Bodies of http requests are read after matching, fetch and undici have them upfront
+        return this.paths.some(path => typeof path === 'string' ? request.path === path : path.test(request.path))
+            || getOperations(request).length > 0;
+    }
+
+    getSpanName(request: PluginRequest) {
+        const [operation] = getOperations(request);
+        if (!operation) {
+            return undefined;
+        }
+        return `${operation.type || 'GraphQL'}${operation.name ? ` ${operation.name}` : ''}`;
+    }
+
+    parseRequest(request: PluginRequest) {
+        const operations = getOperations(request);
+        const [operation] = operations;
+        if (!operation) {
+            return undefined;
+        }
+
+        return {
+            graphql: {
+                operation: {
+                    type: operation.type,
+                    name: operation.name,
+                },
+                fields: operation.fields.length > 0 ? operation.fields : undefined,
+                persisted_query: { hash: operation.persistedQueryHash },
+                batch: { size: operations.length > 1 ? operations.length : undefined },
+            }
+        }
+    }
+
+    parseResponse(response: PluginResponse) {
+        const errors = getErrors(response.body);
+        if (errors.length === 0) {
+            return undefined;
+        }
+        return {
+            graphql: {
+                errors: {
+                    count: errors.length,
+                    codes: uniqueStrings(errors.map(error => error.extensions?.code)),
+                }
+            }
+        }
+    }
+
+    classifyError(response: PluginResponse): PluginError | undefined {
+        // GraphQL servers report most failures with a 200 and an `errors` array
+        const [error] = getErrors(response.body);
+        if (error) {
+            return { type: error.extensions?.code || 'graphql_error', message: error.message };
+        }
+    }
+}
+
+/**
+ * Read the operations of a request, from a JSON body, a batch of them, an `application/graphql` body or the query string
+ */
+function getOperations(request: PluginRequest): GraphQLOperation[] {
+    const body = request.body;
+    if (Array.isArray(body)) {
+        return body.map(parseOperation).filter((operation): operation is GraphQLOperation => !!operation);
+    }
+    if (typeof body === 'string' && request.headers['content-type']?.includes('application/graphql')) {
+        const operation = parseOperation({ query: body });
+        return operation ? [operation] : [];
+    }
+    if (body && typeof body === 'object') {
+        const operation = parseOperation(body);
+        return operation ? [operation] : [];
+    }
+
+    if (request.method === 'GET') {
+        try {
+            const params = new URL(request.url).searchParams;
+            const operation = parseOperation({
+                query: params.get('query') ?? undefined,
+                operationName: params.get('operationName') ?? undefined,
+            });
+            return operation ? [operation] : [];
+        } catch (e) {
+        }
+    }
+    return [];
+}
+
+function parseOperation(body: unknown): GraphQLOperation | undefined {
+    if (!body || typeof body !== 'object') {
+        return undefined;
+    }
+    const { query, operationName, extensions } = body as { query?: unknown, operationName?: unknown, extensions?: any };
+    const name = typeof operationName === 'string' && operationName ? operationName : undefined;
+
+    if (typeof query === 'string') {
+        const operation = parseDocument(query, name);
+        return operation && { ...operation, name: operation.name || name };
+    }
+
+    // Automatic persisted queries only send the hash of a document the server already knows
+    const hash = extensions?.persistedQuery?.sha256Hash;
+    if (typeof hash === 'string') {
+        return { name, fields: [], persistedQueryHash: hash };
+    }
+}
+
+const PUNCTUATOR = /[!$&()[\]:=@{}|]/;
+
+/**
+ * Split a document into names and punctuators, dropping comments, strings and numbers
+ */
+function tokenize(document: string): string[] {
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < document.length) {
+        const char = document[i];
+        if (char === '#') {
+            while (i < document.length && document[i] !== '\n' && document[i] !== '\r') i++;
+        } else if (document.startsWith('"""', i)) {
+            const end = document.indexOf('"""', i + 3);
+            i = end === -1 ? document.length : end + 3;
+            tokens.push('"');
+        } else if (char === '"') {
+            i++;
+            while (i < document.length && document[i] !== '"' && document[i] !== '\n') {
+                i += document[i] === '\\' ? 2 : 1;
+            }
+            i++;
+            tokens.push('"');
+        } else if (document.startsWith('...', i)) {
+            tokens.push('...');
+            i += 3;
+        } else if (PUNCTUATOR.test(char)) {
+            tokens.push(char);
+            i++;
+        } else if (/[_A-Za-z]/.test(char)) {
+            const start = i;
+            while (i < document.length && /[_0-9A-Za-z]/.test(document[i])) i++;
+            tokens.push(document.slice(start, i));
+        } else if (/[-0-9]/.test(char)) {
+            while (i < document.length && /[-+.0-9eE]/.test(document[i])) i++;
+            tokens.push('0');
+        } else {
+            // Whitespace, commas and anything unexpected
+            i++;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Find the operation to execute, the named one or the first, and the fields of its top-level selection set
+ */
+function parseDocument(document: string, operationName: string | undefined): GraphQLOperation | undefined {
+    const tokens = tokenize(document);
+    const operations: { type: OperationType, name?: string, selectionStart: number }[] = [];
+
+    let i = 0;
+    while (i < tokens.length) {
+        const token = tokens[i];
+        if (token === '{') {
+            // Query shorthand
+            operations.push({ type: 'query', selectionStart: i + 1 });
+        } else if (token === 'query' || token === 'mutation' || token === 'subscription' || token === 'fragment') {
+            const name = isName(tokens[i + 1]) ? tokens[i + 1] : undefined;
+            i = skipToSelectionSet(tokens, i + 1);
+            if (token !== 'fragment') {
+                operations.push({ type: token, name, selectionStart: i + 1 });
+            }
+        } else {
+            // Not an executable definition, e.g. a plain search string
+            return undefined;
+        }
+        i = skipBlock(tokens, i);
+    }
+
+    const operation = operationName ? operations.find(operation => operation.name === operationName) : operations[0];
+    if (!operation) {
+        return undefined;
+    }
+    return { type: operation.type, name: operation.name, fields: getTopLevelFields(tokens, operation.selectionStart) };
+}
+
+function isName(token: string | undefined): token is string {
+    return !!token && /^[_A-Za-z]/.test(token);
+}
+
+// Index of the `{` opening the selection set, skipping variable definitions whose defaults may contain braces
+function skipToSelectionSet(tokens: string[], i: number): number {
+    let parens = 0;
+    while (i < tokens.length) {
+        if (tokens[i] === '(') parens++;
+        else if (tokens[i] === ')') parens--;
+        else if (tokens[i] === '{' && parens === 0) return i;
+        i++;
+    }
+    return i;
+}
+
+// Index after the `}` closing the block opened at `i`
+function skipBlock(tokens: string[], i: number): number {
+    let depth = 0;
+    while (i < tokens.length) {
+        if (tokens[i] === '{') depth++;
+        else if (tokens[i] === '}' && --depth === 0) return i + 1;
+        i++;
+    }
+    return i;
+}
+
+function getTopLevelFields(tokens: string[], start: number): string[] {
+    const fields: string[] = [];
+    let depth = 1;
+    let parens = 0;
+    for (let i = start; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token === '(') {
+            parens++;
+        } else if (token === ')') {
+            parens--;
+        } else if (parens > 0) {
+            continue;
+        } else if (token === '{') {
+            depth++;
+        } else if (token === '}') {
+            if (--depth === 0) {
+                break;
+            }
+        } else if (depth === 1 && isName(token)) {
+            const previous = tokens[i - 1];
+            // Skip directives, fragment spreads, type conditions and aliases
+            if (previous === '@' || previous === '...' || (previous === 'on' && tokens[i - 2] === '...') || tokens[i + 1] === ':') {
+                continue;
+            }
+            if (!fields.includes(token)) {
+                fields.push(token);
+            }
+        }
+    }
+    return fields;
+}
+
+function getErrors(body: unknown): GraphQLError[] {
+    // Batched requests get an array of results
+    const results = Array.isArray(body) ? body : [body];
+    return results.flatMap(result => {
+        const errors = result && typeof result === 'object' ? (result as { errors?: unknown }).errors : undefined;
+        return Array.isArray(errors) ? errors.filter((error): error is GraphQLError => !!error && typeof error === 'object') : [];
+    });
+}
+
+function uniqueStrings(values: unknown[]): string[] | undefined {
+    const strings = [...new Set(values.filter((value): value is string => typeof value === 'string'))];
+    return strings.length > 0 ? strings : undefined;
+}
@@ -1,18 +1,137 @@
 import { ClientRequest, IncomingMessage, ServerResponse } from "http";
 
+/**
+ * The instrumentation a plugin is invoked from
+ */
+export type PluginTransport = 'http' | 'fetch' | 'undici';
+
+/**
+ * Transport-neutral view of a request, built by BetterHttpInstrumentation, the fetch interceptor
+ * and EnhancedUndiciInstrumentation
+ */
+export type PluginRequest = {
+    transport: PluginTransport,
+    /**
+     * `client` for outgoing calls, `server` for incoming requests
+     */
+    kind: 'client' | 'server',
+    method: string,
+    url: string,
+    host: string,
+    path: string,
+    /**
+     * Lower-cased header names
+     */
+    headers: Record<string, string>,
+    /**
+     * The parsed request body, when captured
+     */
+    body?: unknown,
+}
+
+/**
+ * Transport-neutral view of a response
+ */
+export type PluginResponse = {
+    statusCode: number,
+    /**
+     * Lower-cased header names
+     */
+    headers: Record<string, string>,
+    /**
+     * The parsed response body, when captured
+     */
+    body?: unknown,
+}
+
+/**
+ * Returned by `classifyError` to mark a span as failed
+ */
+export type PluginError = {
+    /**
+     * Recorded as the `error.type` attribute
+     */
+    type: string,
+    message?: string,
+}
+
+/**
+ * Returned by `getSpanEvents` to add events to a span
+ */
+export type PluginSpanEvent = {
+    name: string,
+    attributes?: Record<string, string | number | boolean>,
+}
+
 export class HttpPlugin {
+    /**
+     * @deprecated Implement `parseRequest`, which runs for every transport
+     */
     parseIncommingMessage?(request: IncomingMessage): Record<string, unknown>;
+    /**
+     * @deprecated Implement `parseRequest`, which runs for every transport
+     */
     parseClientRequest?(request: ClientRequest): Record<string, unknown>;
+    /**
+     * Attributes to record from the request
+     */
+    parseRequest?(request: PluginRequest): Record<string, unknown> | undefined;
+    /**
+     * Attributes to record from the response, on both sides
+     */
+    parseResponse?(response: PluginResponse, request: PluginRequest): Record<string, unknown> | undefined;
+    /**
+     * Attributes to record from the response to an outgoing call
+     */
+    parseIncomingResponse?(response: PluginResponse, request: PluginRequest): Record<string, unknown> | undefined;
+    /**
+     * Attributes to record from the response this server sent to an incoming request
+     */
+    parseServerResponse?(response: PluginResponse, request: PluginRequest): Record<string, unknown> | undefined;
+    /**
+     * Attributes to record when the request failed without a response, e.g. a network error or an abort
+     */
+    onError?(error: unknown, request: PluginRequest): Record<string, unknown> | undefined;
+    /**
+     * A span name that replaces the default `METHOD` based one
+     */
+    getSpanName?(request: PluginRequest): string | undefined;
+    /**
+     * Decide whether a response is a failure, e.g. an API error returned with a 2xx status
+     */
+    classifyError?(response: PluginResponse, request: PluginRequest): PluginError | undefined;
+    /**
+     * Events to add to the span, called with the request and again with the response
+     */
+    getSpanEvents?(request: PluginRequest, response?: PluginResponse): PluginSpanEvent[] | undefined;
     captureBody = false
+    /**
+     * Largest incoming request body parsed for the plugin, when above the instrumentation's `maxBodySize`.
+     * The recorded `request.body` keeps the instrumentation's limit.
+     */
+    maxBodySize?: number
     name = 'base-plugin-should-extend'
     constructor() {
 
     }
 
+    /**
+     * Whether this plugin handles the request, on any transport
+     */
+    matches(request: PluginRequest): boolean {
+        return false;
+    }
+
+    /**
+     * @deprecated Implement `matches`, which runs for every transport
+     */
     shouldParseRequest(request: ClientRequest | IncomingMessage): boolean {
         return false;
     }
-    shouldParseResponse(response: IncomingMessage | ServerResponse<IncomingMessage>): boolean {
-        return false
+    /**
+     * Whether the response hooks run for this response
+     */
+    shouldParseResponse(response: PluginResponse | IncomingMessage | ServerResponse<IncomingMessage>, request?: PluginRequest): boolean {
+        return true
     }
-}
\ No newline at end of file
+}
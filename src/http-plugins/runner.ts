@@ -0,0 +1,203 @@
+import { Span, SpanStatusCode } from "@opentelemetry/api";
+import { flatten } from "flat";
+import { safely } from "../utils/utils.ts";
+import { HttpPlugin, PluginRequest, PluginResponse, PluginSpanEvent, PluginTransport } from "./plugin.ts";
+
+type HeaderValue = string | string[] | number | undefined;
+
+/**
+ * Lower-case header names and join repeated values
+ */
+export function normalizePluginHeaders(headers: Record<string, HeaderValue> | undefined): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers || {})) {
+        if (value !== undefined) {
+            normalized[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    }
+    return normalized;
+}
+
+export function createPluginRequest(
+    transport: PluginTransport,
+    kind: PluginRequest['kind'],
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: unknown
+): PluginRequest {
+    let host = '';
+    let path = url;
+    try {
+        const parsed = new URL(url);
+        host = parsed.host;
+        path = parsed.pathname;
+    } catch (e) {
+    }
+    return { transport, kind, method: method.toUpperCase(), url, host, path, headers, body };
+}
+
+/**
+ * The plugin that handles a request, grouping them when several match
+ */
+export function findPlugin(plugins: HttpPlugin[] | undefined, request: PluginRequest): HttpPlugin | undefined {
+    const matched = (plugins || []).filter(plugin => {
+        try {
+            return plugin.matches(request);
+        } catch (e) {
+            return false;
+        }
+    });
+    return matched.length > 1 ? new PluginGroup(matched) : matched[0];
+}
+
+/**
+ * Runs the hooks of every plugin that matched a request, e.g. the Vercel and GraphQL plugins for a GraphQL route.
+ * Span names and errors come from the first plugin that returns one.
+ */
+class PluginGroup extends HttpPlugin {
+    constructor(private plugins: HttpPlugin[]) {
+        super();
+        this.name = plugins.map(plugin => plugin.name).join(',');
+        this.captureBody = plugins.some(plugin => plugin.captureBody);
+    }
+
+    matches() {
+        return true;
+    }
+
+    shouldParseResponse(response: PluginResponse, request: PluginRequest) {
+        return this.plugins.some(plugin => safely(() => plugin.shouldParseResponse(response, request)));
+    }
+
+    getSpanName(request: PluginRequest) {
+        return firstResult(this.plugins, plugin => plugin.getSpanName?.(request));
+    }
+
+    parseRequest(request: PluginRequest) {
+        return mergeResults(this.plugins, plugin => plugin.parseRequest?.(request));
+    }
+
+    parseResponse(response: PluginResponse, request: PluginRequest) {
+        return mergeResults(this.responders(response, request), plugin => plugin.parseResponse?.(response, request));
+    }
+
+    parseIncomingResponse(response: PluginResponse, request: PluginRequest) {
+        return mergeResults(this.responders(response, request), plugin => plugin.parseIncomingResponse?.(response, request));
+    }
+
+    parseServerResponse(response: PluginResponse, request: PluginRequest) {
+        return mergeResults(this.responders(response, request), plugin => plugin.parseServerResponse?.(response, request));
+    }
+
+    classifyError(response: PluginResponse, request: PluginRequest) {
+        return firstResult(this.responders(response, request), plugin => plugin.classifyError?.(response, request));
+    }
+
+    onError(error: unknown, request: PluginRequest) {
+        return mergeResults(this.plugins, plugin => plugin.onError?.(error, request));
+    }
+
+    getSpanEvents(request: PluginRequest, response?: PluginResponse) {
+        const plugins = response ? this.responders(response, request) : this.plugins;
+        return plugins.flatMap(plugin => safely(() => plugin.getSpanEvents?.(request, response)) || []);
+    }
+
+    private responders(response: PluginResponse, request: PluginRequest) {
+        return this.plugins.filter(plugin => safely(() => plugin.shouldParseResponse(response, request)));
+    }
+}
+
+function firstResult<T>(plugins: HttpPlugin[], hook: (plugin: HttpPlugin) => T | undefined): T | undefined {
+    for (const plugin of plugins) {
+        const result = safely(() => hook(plugin));
+        if (result) {
+            return result;
+        }
+    }
+}
+
+function mergeResults(plugins: HttpPlugin[], hook: (plugin: HttpPlugin) => Record<string, unknown> | undefined) {
+    const results = plugins.map(plugin => safely(() => hook(plugin))).filter(Boolean);
+    // Flatten first so plugins can share a namespace, e.g. `faas`
+    return results.length > 0 ? Object.assign({}, ...results.map(result => flatten(result, { safe: true }))) : undefined;
+}
+
+/**
+ * Run the request hooks of a plugin. Plugin errors never break the request.
+ */
+export function applyPluginRequest(span: Span, plugin: HttpPlugin, request: PluginRequest) {
+    try {
+        span.setAttribute('http.plugin.name', plugin.name);
+        applyPluginSpanName(span, plugin, request);
+
+        const attributes = plugin.parseRequest?.(request);
+        if (attributes) {
+            span.setAttributes(flatten(attributes, { safe: true }));
+        }
+
+        addPluginEvents(span, plugin.getSpanEvents?.(request));
+    } catch (e) {
+    }
+}
+
+export function applyPluginSpanName(span: Span, plugin: HttpPlugin, request: PluginRequest) {
+    try {
+        const spanName = plugin.getSpanName?.(request);
+        if (spanName) {
+            span.updateName(spanName);
+        }
+    } catch (e) {
+    }
+}
+
+/**
+ * Run the response hooks of a plugin, marking the span as failed when the plugin classifies the response as an error
+ */
+export function applyPluginResponse(span: Span, plugin: HttpPlugin, response: PluginResponse, request: PluginRequest) {
+    try {
+        if (!plugin.shouldParseResponse(response, request)) {
+            return;
+        }
+
+        const attributes = [
+            plugin.parseResponse?.(response, request),
+            request.kind === 'client'
+                ? plugin.parseIncomingResponse?.(response, request)
+                : plugin.parseServerResponse?.(response, request),
+        ];
+        for (const attribute of attributes) {
+            if (attribute) {
+                span.setAttributes(flatten(attribute, { safe: true }));
+            }
+        }
+
+        addPluginEvents(span, plugin.getSpanEvents?.(request, response));
+
+        const error = plugin.classifyError?.(response, request);
+        if (error) {
+            span.setAttribute('error.type', error.type);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+        }
+    } catch (e) {
+    }
+}
+
+/**
+ * Run the error hook of a plugin for a request that failed without a response
+ */
+export function applyPluginError(span: Span, plugin: HttpPlugin, error: unknown, request: PluginRequest) {
+    try {
+        const attributes = plugin.onError?.(error, request);
+        if (attributes) {
+            span.setAttributes(flatten(attributes, { safe: true }));
+        }
+    } catch (e) {
+    }
+}
+
+function addPluginEvents(span: Span, events: PluginSpanEvent[] | undefined) {
+    for (const event of events || []) {
+        span.addEvent(event.name, event.attributes);
+    }
+}
@@ -1,21 +1,31 @@
-import { ClientRequest, IncomingMessage } from "http";
-import { HttpPlugin } from "./plugin.ts";
+import { isHostOrSubdomain } from "../utils/utils.ts";
+import { HttpPlugin, PluginError, PluginRequest, PluginResponse } from "./plugin.ts";
+
+type StripeError = {
+    type?: string,
+    code?: string,
+    decline_code?: string,
+    param?: string,
+    message?: string,
+}
 
 export class StripePlugin extends HttpPlugin implements HttpPlugin {
     captureBody = true
     name = 'stripe'
 
-    shouldParseRequest(request: ClientRequest | IncomingMessage): boolean {
-        if (request instanceof ClientRequest && request.host?.includes('api.stripe.com')) {
-            return true;
-        }
-        return false;
+    matches(request: PluginRequest): boolean {
+        return request.kind === 'client' && isHostOrSubdomain(request.host, 'api.stripe.com');
     }
 
-    parseClientRequest(request: ClientRequest) {
+    getSpanName(request: PluginRequest) {
+        const [, entity] = parseStripePath(request.path);
+        return entity ? `stripe ${request.method} ${entity}` : undefined;
+    }
+
+    parseRequest(request: PluginRequest) {
         const method = request.method;
 
-        const [version, entity, entityIdOrOperation, operation] = request.path.split('/');
+        const [version, entity, entityIdOrOperation, operation] = parseStripePath(request.path);
 
         return {
             stripe: {
@@ -24,9 +34,56 @@ export class StripePlugin extends HttpPlugin implements HttpPlugin {
                 entity,
                 entityIdOrOperation,
                 operation,
+                idempotency_key: request.headers['idempotency-key'],
+            }
+        }
+    }
+
+    parseIncomingResponse(response: PluginResponse) {
+        const body = response.body as { id?: string, object?: string, livemode?: boolean, error?: StripeError } | undefined;
+        const error = body?.error;
+
+        return {
+            stripe: {
+                request_id: response.headers['request-id'],
+                ...(typeof body?.id === 'string' && body.object !== 'list' ? { object_id: body.id, object: body.object } : {}),
+                ...(typeof body?.livemode === 'boolean' ? { livemode: body.livemode } : {}),
+                ...(error ? {
+                    error: {
+                        type: error.type,
+                        code: error.code,
+                        decline_code: error.decline_code,
+                        param: error.param,
+                    }
+                } : {}),
+            }
+        }
+    }
+
+    classifyError(response: PluginResponse): PluginError | undefined {
+        const error = (response.body as { error?: StripeError } | undefined)?.error;
+        if (error) {
+            return { type: error.type || 'stripe_error', message: error.message };
+        }
+        if (response.statusCode >= 400) {
+            return { type: `http_${response.statusCode}` };
+        }
+    }
+
+    onError(error: unknown) {
+        // Stripe's SDKs report failed connections as api_connection_error
+        return {
+            stripe: {
+                error: {
+                    type: 'api_connection_error',
+                    message: error instanceof Error ? error.message : String(error),
+                }
             }
         }
     }
 }
 
-const plugin = new StripePlugin();
\ No newline at end of file
+// `/v1/customers/cus_123/sources` -> ['v1', 'customers', 'cus_123', 'sources']
+function parseStripePath(path: string): (string | undefined)[] {
+    return path.split('?')[0].split('/').filter(segment => segment.length > 0);
+}
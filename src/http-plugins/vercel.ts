@@ -1,16 +1,11 @@
-import { ClientRequest, IncomingMessage } from "http";
-import { HttpPlugin } from "./plugin.ts";
+import { HttpPlugin, PluginRequest } from "./plugin.ts";
 
 export class VercelPlugin extends HttpPlugin implements HttpPlugin {
     name = 'vercel';
-    shouldParseRequest(request: ClientRequest | IncomingMessage): boolean {
-
-        if (request instanceof IncomingMessage && request.headers['x-vercel-id']) {
-            return true;
-        }
-        return false;
+    matches(request: PluginRequest): boolean {
+        return request.kind === 'server' && !!request.headers['x-vercel-id'];
     }
-    parseIncommingMessage(request: IncomingMessage) {
+    parseRequest(request: PluginRequest) {
 
         const headers = request.headers;
         const vercelRequestId = headers['x-vercel-id'];
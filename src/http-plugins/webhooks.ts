@@ -0,0 +1,154 @@
+import { asNumber, asObject, asString } from "../utils/utils.ts";
+import { HttpPlugin, PluginError, PluginRequest, PluginResponse } from "./plugin.ts";
+
+type WebhookDelivery = {
+    eventType?: string,
+    deliveryId?: string,
+    attributes?: Record<string, unknown>,
+}
+
+/**
+ * Base for plugins that recognise webhook deliveries to this server. Deliveries are named
+ * `<provider> webhook <event type>` and fail when the handler doesn't acknowledge them with a 2xx.
+ */
+class WebhookPlugin extends HttpPlugin {
+    captureBody = true
+    // Stripe and Svix send the event type after the event data, and GitHub `pull_request` payloads
+    // often run past 100KB, so events are read beyond the usual body limit
+    maxBodySize = 1024 * 1024
+    protected provider = ''
+
+    protected isDelivery(request: PluginRequest): boolean {
+        return false;
+    }
+
+    protected parseDelivery(request: PluginRequest): WebhookDelivery {
+        return {};
+    }
+
+    matches(request: PluginRequest): boolean {
+        return request.kind === 'server' && request.method === 'POST' && this.isDelivery(request);
+    }
+
+    getSpanName(request: PluginRequest) {
+        const { eventType } = this.parseDelivery(request);
+        // The event type may only be known once the body has been read
+        return eventType ? `${this.provider} webhook ${eventType}` : undefined;
+    }
+
+    parseRequest(request: PluginRequest) {
+        const delivery = this.parseDelivery(request);
+        return {
+            webhook: {
+                provider: this.provider,
+                event_type: delivery.eventType,
+                delivery_id: delivery.deliveryId,
+            },
+            ...delivery.attributes,
+        }
+    }
+
+    classifyError(response: PluginResponse): PluginError | undefined {
+        // Providers retry deliveries that weren't acknowledged
+        if (response.statusCode >= 400) {
+            return { type: `http_${response.statusCode}`, message: `${this.provider} webhook was not acknowledged` };
+        }
+    }
+}
+
+/**
+ * Stripe events, signed with the `Stripe-Signature` header
+ */
+export class StripeWebhookPlugin extends WebhookPlugin implements HttpPlugin {
+    name = 'stripe-webhook'
+    protected provider = 'stripe'
+
+    protected isDelivery(request: PluginRequest): boolean {
+        return !!request.headers['stripe-signature'];
+    }
+
+    protected parseDelivery(request: PluginRequest): WebhookDelivery {
+        const event = asObject(request.body);
+        const object = asObject(asObject(event?.data)?.object);
+        return {
+            eventType: asString(event?.type),
+            deliveryId: asString(event?.id),
+            attributes: {
+                stripe: {
+                    webhook: {
+                        livemode: typeof event?.livemode === 'boolean' ? event.livemode : undefined,
+                        api_version: asString(event?.api_version),
+                        // Connect events carry the connected account
+                        account: asString(event?.account),
+                        object: asString(object?.object),
+                        object_id: asString(object?.id),
+                    }
+                }
+            },
+        };
+    }
+}
+
+/**
+ * GitHub App and repository webhooks, identified by the `X-GitHub-Event` header
+ */
+export class GitHubWebhookPlugin extends WebhookPlugin implements HttpPlugin {
+    name = 'github-webhook'
+    protected provider = 'github'
+
+    protected isDelivery(request: PluginRequest): boolean {
+        return !!request.headers['x-github-event'];
+    }
+
+    protected parseDelivery(request: PluginRequest): WebhookDelivery {
+        const event = request.headers['x-github-event'];
+        const payload = asObject(request.body);
+        const action = asString(payload?.action);
+        return {
+            // `pull_request.opened`
+            eventType: action ? `${event}.${action}` : event,
+            deliveryId: request.headers['x-github-delivery'],
+            attributes: {
+                github: {
+                    webhook: {
+                        hook_id: request.headers['x-github-hook-id'],
+                        installation_id: asNumber(asObject(payload?.installation)?.id),
+                        repository: asString(asObject(payload?.repository)?.full_name),
+                        sender: asString(asObject(payload?.sender)?.login),
+                    }
+                }
+            },
+        };
+    }
+}
+
+/**
+ * Svix deliveries, used by Clerk among others, identified by the `svix-id` header
+ */
+export class SvixWebhookPlugin extends WebhookPlugin implements HttpPlugin {
+    name = 'svix-webhook'
+    protected provider = 'svix'
+
+    protected isDelivery(request: PluginRequest): boolean {
+        return !!request.headers['svix-id'];
+    }
+
+    protected parseDelivery(request: PluginRequest): WebhookDelivery {
+        const event = asObject(request.body);
+        return {
+            // `user.created`
+            eventType: asString(event?.type),
+            // The same for every retry of a message
+            deliveryId: request.headers['svix-id'],
+            attributes: {
+                svix: {
+                    webhook: {
+                        timestamp: request.headers['svix-timestamp'],
+                        object: asString(asObject(event?.data)?.object),
+                        object_id: asString(asObject(event?.data)?.id),
+                    }
+                }
+            },
+        };
+    }
+}
@@ -1,81 +1,18 @@
-import { Span } from "@opentelemetry/api";
-import { ClientRequest, IncomingMessage, OutgoingHttpHeaders, ServerResponse } from "http";
-import { HttpPlugin } from "./http-plugins/plugin.ts";
+import { context, Span } from "@opentelemetry/api";
+import { getRPCMetadata, RPCType } from "@opentelemetry/core";
+import { ClientRequest, IncomingMessage, OutgoingHttpHeaders, RequestOptions, ServerResponse } from "http";
+import { CaptureRule, findCaptureRule } from "./capture-policy.ts";
+import { HttpPlugin, PluginRequest } from "./http-plugins/plugin.ts";
+import { applyPluginError, applyPluginRequest, applyPluginResponse, applyPluginSpanName, createPluginRequest, findPlugin, normalizePluginHeaders } from "./http-plugins/runner.ts";
 import { flatten } from "flat";
 import { HttpInstrumentation } from "./http/index.ts";
 import { HttpInstrumentationConfig } from "./http/types.ts"
 import { parse } from 'querystring'
 import { PassThrough } from "stream";
 import { getPackageVersion } from "./version.js";
-
-// List of sensitive headers to redact
-const SENSITIVE_HEADERS = [
-    'authorization',
-    'cookie',
-    'set-cookie',
-    'x-api-key',
-    'x-auth-token',
-    'x-access-token',
-    'x-kubiks-key',
-    'bearer',
-    'proxy-authorization',
-    'www-authenticate',
-    'proxy-authenticate',
-];
-
-// Function to parse JWT token and extract claims
-function parseJWTClaims(token: string): Record<string, any> | null {
-    try {
-        // Remove "Bearer " prefix if present
-        const cleanToken = token.replace(/^Bearer\s+/i, '');
-        
-        // JWT tokens have 3 parts separated by dots
-        const parts = cleanToken.split('.');
-        if (parts.length !== 3) {
-            return null;
-        }
-        
-        // Decode the payload (second part)
-        const payload = parts[1];
-        
-        // Add padding if needed for base64 decoding
-        const padded = payload + '='.repeat((4 - payload.length % 4) % 4);
-        
-        // Decode base64url
-        const decoded = Buffer.from(padded.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
-        
-        return JSON.parse(decoded);
-    } catch (error) {
-        return null;
-    }
-}
-
-// Function to redact sensitive headers and extract JWT claims
-function redactSensitiveHeaders(headers: Record<string, any>): { redactedHeaders: Record<string, any>, jwtClaims: Record<string, any> } {
-    const redactedHeaders = { ...headers };
-    let jwtClaims: Record<string, any> = {};
-    
-    for (const key in redactedHeaders) {
-        const lowerKey = key.toLowerCase();
-        if (SENSITIVE_HEADERS.some(sensitive => lowerKey.includes(sensitive))) {
-            // Check if this is an authorization header and try to parse JWT
-            if (lowerKey.includes('authorization') && redactedHeaders[key]) {
-                const claims = parseJWTClaims(String(redactedHeaders[key]));
-                if (claims) {
-                    // Add JWT claims as token.* attributes
-                    for (const [claimKey, claimValue] of Object.entries(claims)) {
-                        if (typeof claimValue === 'string' || typeof claimValue === 'number' || typeof claimValue === 'boolean') {
-                            jwtClaims[`token.${claimKey}`] = String(claimValue);
-                        }
-                    }
-                }
-            }
-            redactedHeaders[key] = '[REDACTED]';
-        }
-    }
-    
-    return { redactedHeaders, jwtClaims };
-}
+import { flushMetrics } from "./metrics.ts";
+import { flushLogs } from "./console-logger.ts";
+import { redactHeaders, redactBody, redactText, redactUrl } from "./redaction.ts";
 
 export type BetterHttpInstrumentationOptions = {
     plugins?: HttpPlugin[],
@@ -90,10 +27,43 @@ export type BetterHttpInstrumentationOptions = {
     includeUndiciInstrumentation?: boolean
     requireParentforOutgoingSpans?: boolean
     requireParentforIncomingSpans?: boolean
+    /**
+     * Resolve the route pattern of an incoming request, e.g. `/api/users/[id]`.
+     * The route is recorded as `http.route` and used for the span name.
+     */
+    resolveRoute?: (request: IncomingMessage) => string | undefined
+    /**
+     * Maximum size in bytes of incoming request and server response bodies to capture
+     * @default 10000
+     */
+    maxBodySize?: number
+    /**
+     * Flush metrics once each server response closes (serverless environments)
+     * @default false
+     */
+    flushMetricsOnResponseEnd?: boolean
+    /**
+     * Export queued console logs once each server response closes (serverless environments)
+     * @default false
+     */
+    flushLogsOnResponseEnd?: boolean
+    /**
+     * Per host or URL rules for outgoing requests: whether to trace them, capture headers and bodies, and the body size limit.
+     * The first matching rule applies, before the defaults that skip bodies of localhost and collector requests.
+     */
+    capturePolicy?: CaptureRule[]
 }
 
+// Requests to local development servers and the collector never record bodies
+const defaultCapturePolicy: CaptureRule[] = [
+    { match: 'localhost', captureBody: false },
+    { match: 'otlp.kubiks.ai', captureBody: false },
+];
+
 export function _betterHttpInstrumentation(options: BetterHttpInstrumentationOptions = {}) {
     options.plugins = options.plugins || [];
+    const maxBodySize = options.maxBodySize || 10000;
+    const capturePolicy = [...(options.capturePolicy || []), ...defaultCapturePolicy];
     return {
         requestHook(span: Span, request: ClientRequest | IncomingMessage) {
             // Add Kubiks resource attributes to all HTTP spans
@@ -104,60 +74,92 @@ export function _betterHttpInstrumentation(options: BetterHttpInstrumentationOpt
             });
 
             if (request instanceof ClientRequest) {
-                const plugin = options.plugins.find(plugin => plugin?.shouldParseRequest(request)) as HttpPlugin | undefined;
+                const headers = request.getHeaders();
+                const url = `${request.protocol}//${request.host}${request.path}`;
+                const pluginRequest = createPluginRequest('http', 'client', request.method, url, normalizePluginHeaders(headers));
+                const plugin = findPlugin(options.plugins, pluginRequest) || options.plugins.find(plugin => plugin?.shouldParseRequest(request));
+
+                const rule = findCaptureRule(capturePolicy, url);
+                const capture = {
+                    captureHeaders: rule?.captureHeaders ?? !!options.captureHeaders,
+                    captureBody: rule?.captureBody ?? !!options.captureBody,
+                    // Outgoing bodies are only limited by a rule
+                    maxBodySize: rule?.maxBodySize ?? Infinity,
+                };
+                clientCaptures.set(span, capture);
+
+                if (capture.captureHeaders) {
+                    const { redactedHeaders, jwtClaims } = redactHeaders(headers);
+                    span.setAttributes(flatten({ request: { headers: redactedHeaders } }));
+                    // Add JWT claims as span attributes
+                    if (Object.keys(jwtClaims).length > 0) {
+                        span.setAttributes(jwtClaims);
+                    }
+                }
 
                 if (plugin) {
-                    span.setAttribute('http.plugin.name', plugin.name);
-
-                    const headers = request.getHeaders();
-
+                    applyPluginRequest(span, plugin, pluginRequest);
+                    pluginSpans.set(span, { plugin, request: pluginRequest });
+                    request.prependOnceListener('error', (error) => applyPluginError(span, plugin, error, pluginRequest));
+                }
 
-                    if (options.captureHeaders) {
-                        const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(headers);
-                        span.setAttributes(flatten({ request: { headers: redactedHeaders } }));
-                        // Add JWT claims as span attributes
-                        if (Object.keys(jwtClaims).length > 0) {
-                            span.setAttributes(jwtClaims);
+                if (capture.captureBody || plugin?.captureBody) {
+                    let pluginSawBody = false;
+                    getClientRequestBody(request, (body) => {
+                        const parsedBody = _parseBodySafe(body, headers);
+                        if (capture.captureBody) {
+                            span.setAttribute('request.body', _formatCapturedBody(Buffer.from(body), Buffer.byteLength(body), headers, capture.maxBodySize));
                         }
-                    }
-                    if (plugin.captureBody) {
-                        getClientRequestBody(request, (body) => {
-                            const requestData = _parseBodySafe(body, headers);
-                            span.setAttribute('request.body', typeof requestData === 'string' ? requestData : JSON.stringify(requestData));
-                        })
-                    }
-                } else {
-
-                    const headers = request.getHeaders();
-
-
-                    if (options.captureHeaders) {
-                        const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(headers);
-                        span.setAttributes(flatten({ request: { headers: redactedHeaders } }));
-                        // Add JWT claims as span attributes
-                        if (Object.keys(jwtClaims).length > 0) {
-                            span.setAttributes(jwtClaims);
+                        if (plugin) {
+                            // The body is written after the plugin matched, run its request hooks again once it parses
+                            pluginRequest.body = parsedBody;
+                            if (!pluginSawBody && typeof parsedBody === 'object') {
+                                pluginSawBody = true;
+                                applyPluginRequest(span, plugin, pluginRequest);
+                            }
                         }
-                    }
-
-                    if (options.captureBody && shouldCaptureBody(request.host)) {
-                        getClientRequestBody(request, (body) => {
-                            const requestData = _parseBodySafe(body, headers);
-                            span.setAttribute('request.body', typeof requestData === 'string' ? requestData : JSON.stringify(requestData));
-                        })
-
-                    }
+                    })
                 }
 
             }
             if (request instanceof IncomingMessage) {
-                const plugin = options.plugins.find(plugin => plugin.shouldParseRequest && plugin.shouldParseRequest(request));
+                const route = options.resolveRoute && request.url ? options.resolveRoute(request) : undefined;
+                if (route) {
+                    span.setAttribute('http.route', route);
+                    span.updateName(`${request.method || 'GET'} ${route}`);
+                    // The instrumentation reads the route back from the RPC metadata for the metric attributes
+                    const rpcMetadata = getRPCMetadata(context.active());
+                    if (rpcMetadata?.type === RPCType.HTTP) {
+                        rpcMetadata.route = route;
+                    }
+                }
+
+                const pluginRequest = createPluginRequest('http', 'server', request.method || 'GET', `http://${request.headers.host || 'localhost'}${request.url || '/'}`, normalizePluginHeaders(request.headers));
+                const plugin = findPlugin(options.plugins, pluginRequest) || options.plugins.find(plugin => plugin.shouldParseRequest && plugin.shouldParseRequest(request));
 
-                span.setAttribute('http.plugin.name', plugin.name);
+                if (plugin) {
+                    applyPluginRequest(span, plugin, pluginRequest);
+                    pluginSpans.set(span, { plugin, request: pluginRequest });
 
-                if (plugin.parseIncommingMessage) {
-                    const attributes = plugin.parseIncommingMessage(request);
-                    span.setAttributes(flatten(attributes));
+                    if (plugin.parseIncommingMessage) {
+                        const attributes = plugin.parseIncommingMessage(request);
+                        span.setAttributes(flatten(attributes));
+                    }
+                }
+
+                if (options.captureBody || plugin?.captureBody) {
+                    // Plugins may read past the recorded limit, e.g. webhook events whose type follows the event data
+                    const pluginBodySize = plugin?.captureBody ? Math.max(plugin.maxBodySize || 0, maxBodySize) : maxBodySize;
+                    getIncomingMessageBody(request, pluginBodySize, (body, size) => {
+                        if (options.captureBody) {
+                            span.setAttribute('request.body', _formatCapturedBody(body.subarray(0, maxBodySize), size, request.headers, maxBodySize));
+                        }
+                        if (plugin?.captureBody && size <= pluginBodySize) {
+                            // The body is read after the plugin matched, run its request hooks again with it
+                            pluginRequest.body = _parseBodySafe(body.toString('utf8'), request.headers);
+                            applyPluginRequest(span, plugin, pluginRequest);
+                        }
+                    });
                 }
             }
 
@@ -166,11 +168,16 @@ export function _betterHttpInstrumentation(options: BetterHttpInstrumentationOpt
             }
         },
         responseHook(span: Span, response: IncomingMessage | ServerResponse, cb: () => void) {
+            const pluginSpan = pluginSpans.get(span);
+            pluginSpans.delete(span);
+
             if (response instanceof IncomingMessage) {
                 try {
                     const headers = response.headers;
-                    if (options.captureHeaders) {
-                        const { redactedHeaders, jwtClaims } = redactSensitiveHeaders(headers);
+                    const capture = clientCaptures.get(span);
+                    clientCaptures.delete(span);
+                    if (capture?.captureHeaders) {
+                        const { redactedHeaders, jwtClaims } = redactHeaders(headers);
                         span.setAttributes(flatten({ response: { headers: redactedHeaders } }));
                         // Add JWT claims as span attributes (for response headers like set-cookie with JWT)
                         if (Object.keys(jwtClaims).length > 0) {
@@ -179,13 +186,23 @@ export function _betterHttpInstrumentation(options: BetterHttpInstrumentationOpt
                     }
 
 
-                    if (options.captureBody && shouldCaptureBody(response.url || '')) {
+                    // Plugins read the body even when the capture policy keeps it off the span
+                    if (capture && (capture.captureBody || pluginSpan?.plugin.captureBody)) {
                         getClientResponseBody(response, (body) => {
-                            const responseData = _parseBodySafe(body, headers);
-                            span.setAttribute('response.body', typeof responseData === 'string' ? responseData : JSON.stringify(responseData));
+                            const size = Buffer.byteLength(body);
+                            const parsedBody = body && size <= capture.maxBodySize ? _parseBodySafe(body, headers) : undefined;
+                            if (body && capture.captureBody) {
+                                span.setAttribute('response.body', _formatCapturedBody(Buffer.from(body), size, headers, capture.maxBodySize));
+                            }
+                            if (pluginSpan) {
+                                applyPluginResponse(span, pluginSpan.plugin, _pluginResponse(response.statusCode, headers, parsedBody), pluginSpan.request);
+                            }
                             cb();
                         })
                     } else {
+                        if (pluginSpan) {
+                            applyPluginResponse(span, pluginSpan.plugin, _pluginResponse(response.statusCode, headers), pluginSpan.request);
+                        }
                         cb();
                     }
                 } catch (e) {
@@ -193,18 +210,57 @@ export function _betterHttpInstrumentation(options: BetterHttpInstrumentationOpt
                 }
             }
 
+            if (response instanceof ServerResponse && (options.captureBody || pluginSpan)) {
+                getServerResponseBody(response, maxBodySize, (body, size) => {
+                    const headers = response.getHeaders();
+                    if (options.captureBody && size > 0) {
+                        span.setAttribute('response.body', _formatCapturedBody(body, size, headers, maxBodySize));
+                    }
+                    if (pluginSpan) {
+                        // Plugins only see complete bodies
+                        const parsedBody = size > 0 && size <= maxBodySize ? _parseBodySafe(body.toString('utf8'), headers) : undefined;
+                        pendingServerResponses.set(span, () => {
+                            applyPluginSpanName(span, pluginSpan.plugin, pluginSpan.request);
+                            applyPluginResponse(span, pluginSpan.plugin, _pluginResponse(response.statusCode, headers, parsedBody), pluginSpan.request);
+                        });
+                    }
+                });
+            }
+
+            if (response instanceof ServerResponse && options.flushMetricsOnResponseEnd) {
+                // The duration histogram is recorded by a later 'close' listener, flush after it has run
+                response.once('close', () => setImmediate(flushMetrics));
+            }
+            if (response instanceof ServerResponse && options.flushLogsOnResponseEnd) {
+                // Logs wait for a batch timer that doesn't fire once the function freezes
+                response.once('close', () => setImmediate(flushLogs));
+            }
+
             if (options.responseHook) {
                 options.responseHook(span, response, cb);
             }
 
         },
+        applyCustomAttributesOnSpan(span: Span) {
+            const applyPluginResult = pendingServerResponses.get(span);
+            pendingServerResponses.delete(span);
+            applyPluginResult?.();
+        },
     }
 }
 
-const ignoredHosts = [
-    'localhost',
-    'otlp.kubiks.ai',
-];
+// Capture settings of outgoing requests, until their response arrives
+const clientCaptures = new WeakMap<Span, { captureHeaders: boolean, captureBody: boolean, maxBodySize: number }>();
+
+// The plugin that handled the request of a span, until its response arrives
+const pluginSpans = new WeakMap<Span, { plugin: HttpPlugin, request: PluginRequest }>();
+
+// Plugin results for server spans, applied after the instrumentation has set the final status and route name
+const pendingServerResponses = new WeakMap<Span, () => void>();
+
+function _pluginResponse(statusCode: number | undefined, headers: OutgoingHttpHeaders, body?: unknown) {
+    return { statusCode: statusCode || 0, headers: normalizePluginHeaders(headers), body };
+}
 
 function getClientRequestBody(r: ClientRequest, cb: (body: string) => void) {
     const chunks: Buffer[] = [];
@@ -265,10 +321,8 @@ function getClientResponseBody(r: IncomingMessage, cb: (body: string) => void) {
         }
     }).on('end', () => {
         try {
-            if (chunks.length > 0) {
-                const body = Buffer.concat(chunks).toString('utf8');
-                cb(body)
-            }
+            const body = Buffer.concat(chunks).toString('utf8');
+            cb(body)
         } catch (e) {
         }
     });
@@ -279,8 +333,76 @@ function getClientResponseBody(r: IncomingMessage, cb: (body: string) => void) {
     r.readableFlowing = originalState;
 }
 
-function shouldCaptureBody(host: string) {
-    return !ignoredHosts.find(ignoredHost => host.includes(ignoredHost));
+/**
+ * Observes the chunks an incoming request emits without changing its flowing mode,
+ * so the route handler still reads the full stream.
+ */
+function getIncomingMessageBody(r: IncomingMessage, maxBodySize: number, cb: (body: Buffer, size: number) => void) {
+    const chunks: Buffer[] = [];
+    let buffered = 0;
+    let size = 0;
+    const originalEmit = r.emit;
+
+    r.emit = function (event: string | symbol, ...args: any[]) {
+        try {
+            if (event === 'data') {
+                const chunk: Buffer = typeof args[0] === 'string' ? Buffer.from(args[0]) : args[0];
+                size += chunk.length;
+                if (buffered < maxBodySize) {
+                    chunks.push(chunk);
+                    buffered += chunk.length;
+                }
+            } else if (event === 'end') {
+                r.emit = originalEmit;
+                if (size > 0) {
+                    cb(Buffer.concat(chunks), size);
+                }
+            }
+        } catch (e) {
+        }
+        return originalEmit.apply(this, [event, ...args]);
+    } as typeof r.emit;
+}
+
+function getServerResponseBody(r: ServerResponse, maxBodySize: number, cb: (body: Buffer, size: number) => void) {
+    const chunks: Buffer[] = [];
+    let buffered = 0;
+    let size = 0;
+
+    const record = (chunk: unknown, encoding: unknown) => {
+        try {
+            if (!chunk || typeof chunk === 'function') {
+                return;
+            }
+            const data = typeof chunk === 'string'
+                ? Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8')
+                : Buffer.from(chunk as Uint8Array);
+            size += data.length;
+            if (buffered < maxBodySize) {
+                chunks.push(data);
+                buffered += data.length;
+            }
+        } catch (e) {
+        }
+    };
+
+    const oldWrite = r.write;
+    r.write = function (chunk: unknown, ...args: any[]) {
+        record(chunk, args[0]);
+        return oldWrite.apply(this, [chunk, ...args]);
+    } as typeof r.write;
+
+    const oldEnd = r.end;
+    r.end = function (chunk?: unknown, ...args: any[]) {
+        record(chunk, args[0]);
+        r.write = oldWrite;
+        r.end = oldEnd;
+        try {
+            cb(Buffer.concat(chunks), size);
+        } catch (e) {
+        }
+        return oldEnd.apply(this, [chunk, ...args]);
+    } as typeof r.end;
 }
 
 function _parseBodySafe(body: string, headers: OutgoingHttpHeaders): unknown {
@@ -299,16 +421,65 @@ function _parseBodySafe(body: string, headers: OutgoingHttpHeaders): unknown {
     return requestData;
 }
 
+const binaryContentTypes = [
+    'image/',
+    'video/',
+    'audio/',
+    'application/octet-stream',
+    'application/pdf',
+    'application/zip',
+    'multipart/form-data',
+];
+
+function isBinary(bytes: Uint8Array): boolean {
+    // Simple heuristic: if more than 30% of bytes are non-printable, consider it binary
+    const nonPrintableCount = bytes.filter(byte =>
+        byte < 32 && byte !== 9 && byte !== 10 && byte !== 13
+    ).length;
+
+    return nonPrintableCount / bytes.length > 0.3;
+}
+
+// Applies the same binary and size guards as the fetch interceptor before parsing the body
+function _formatCapturedBody(body: Buffer, size: number, headers: OutgoingHttpHeaders, maxBodySize: number): string {
+    const contentType = typeof headers['content-type'] === 'string' ? headers['content-type'].toLowerCase() : '';
+
+    if (binaryContentTypes.some(type => contentType.includes(type))) {
+        return JSON.stringify({ _type: 'Binary', _contentType: contentType, _size: size, _note: 'Binary content not captured' });
+    }
+    if (isBinary(body)) {
+        return JSON.stringify({ _type: 'Binary', _size: size, _note: 'Binary data not captured' });
+    }
+    if (size > maxBodySize) {
+        return JSON.stringify({ _truncated: true, _size: size, _preview: redactText(body.subarray(0, 100).toString('utf8')) });
+    }
+
+    const data = redactBody(_parseBodySafe(body.toString('utf8'), headers));
+    return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+function _outgoingRequestUrl(request: RequestOptions): string {
+    const host = request.hostname || request.host || 'localhost';
+    const port = request.port ? `:${request.port}` : '';
+    return `${request.protocol || 'http:'}//${host}${port}${request.path || '/'}`;
+}
+
 export class BetterHttpInstrumentation extends HttpInstrumentation {
     constructor(options: BetterHttpInstrumentationOptions = {}) {
         super({
             ..._betterHttpInstrumentation(options),
             ignoreIncomingRequestHook: options.ignoreIncomingRequestHook,
-            ignoreOutgoingRequestHook: options.ignoreOutgoingRequestHook,
+            ignoreOutgoingRequestHook: (request) => {
+                if (options.ignoreOutgoingRequestHook?.(request)) {
+                    return true;
+                }
+                return findCaptureRule(options.capturePolicy, _outgoingRequestUrl(request))?.trace === false;
+            },
             startIncomingSpanHook: options.startIncomingSpanHook,
             startOutgoingSpanHook: options.startOutgoingSpanHook,
             requireParentforOutgoingSpans: options.requireParentforOutgoingSpans,
             requireParentforIncomingSpans: options.requireParentforIncomingSpans,
+            redactUrl,
         })
     }
 }
\ No newline at end of file
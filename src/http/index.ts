@@ -24,6 +24,7 @@ import {
     SpanOptions,
     SpanStatus,
     SpanStatusCode,
+    SpanAttributes,
     trace,
     Histogram,
     MetricAttributes,
@@ -504,6 +505,7 @@ export class HttpInstrumentation extends InstrumentationBase<Http> {
                     instrumentation._getConfig().startIncomingSpanHook
                 ),
             });
+            instrumentation._redactUrlAttributes(spanAttributes);
 
             const spanOptions: SpanOptions = {
                 kind: SpanKind.SERVER,
@@ -643,6 +645,7 @@ export class HttpInstrumentation extends InstrumentationBase<Http> {
                     instrumentation._getConfig().startOutgoingSpanHook
                 ),
             });
+            instrumentation._redactUrlAttributes(attributes);
 
             const startTime = hrTime();
             const metricAttributes: MetricAttributes =
@@ -856,6 +859,23 @@ export class HttpInstrumentation extends InstrumentationBase<Http> {
         }
     }
 
+    private _redactUrlAttributes(attributes: SpanAttributes) {
+        const redactUrl = this._getConfig().redactUrl;
+        if (typeof redactUrl !== 'function') {
+            return;
+        }
+        for (const key of [SemanticAttributes.HTTP_URL, SemanticAttributes.HTTP_TARGET]) {
+            const value = attributes[key];
+            if (typeof value === 'string') {
+                attributes[key] = safeExecuteInTheMiddle(
+                    () => redactUrl(value),
+                    () => { },
+                    true
+                ) ?? value;
+            }
+        }
+    }
+
     private _createHeaderCapture() {
         const config = this._getConfig();
 
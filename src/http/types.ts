@@ -114,6 +114,8 @@ export interface HttpInstrumentationConfig extends InstrumentationConfig {
   requireParentforOutgoingSpans?: boolean;
   /** Require parent to create span for incoming requests */
   requireParentforIncomingSpans?: boolean;
+  /** Function for scrubbing sensitive query parameters from url attributes */
+  redactUrl?: (url: string) => string;
   /** Map the following HTTP headers to span attributes. */
   headersToSpanAttributes?: {
     client?: { requestHeaders?: string[]; responseHeaders?: string[] };
@@ -4,7 +4,11 @@ export { getEnhancedHttpInstrumentations, EnhancedHttpInstrumentation, EnhancedH
 export { EnhancedUndiciInstrumentation } from './enhanced-undici.ts';
 export { enableFetchBodyCapture, disableFetchBodyCapture } from './fetch-interceptor.ts';
 export { StripePlugin } from './http-plugins/stripe.ts';
-export { HttpPlugin } from './http-plugins/plugin.ts';
+export { AwsPlugin } from './http-plugins/aws.ts';
+export { GraphQLPlugin, GraphQLPluginOptions } from './http-plugins/graphql.ts';
+export { StripeWebhookPlugin, GitHubWebhookPlugin, SvixWebhookPlugin } from './http-plugins/webhooks.ts';
+export { HttpPlugin, PluginRequest, PluginResponse, PluginError, PluginSpanEvent, PluginTransport } from './http-plugins/plugin.ts';
+export { GenAiPlugin, GenAiPluginOptions, GenAiProvider, GenAiApiFormat } from './http-plugins/gen-ai.ts';
 export { VercelPlugin } from './http-plugins/vercel.ts';
 export { 
     patchConsole, 
@@ -14,6 +18,14 @@ export {
     runInTrace, 
     runInTraceAsync,
     logProvider,
-    tracer
+    tracer,
+    ConsoleLogOptions,
+    LogBatchOptions
 } from './console-logger.ts';
+export { LogRateLimit } from './log-filter.ts';
+export { createPinoDestination, PinoDestinationOptions } from './log-bridges/pino.ts';
+export { KubiksWinstonTransport, KubiksWinstonTransportOptions } from './log-bridges/winston.ts';
+export { createBunyanStream } from './log-bridges/bunyan.ts';
+export { configureRedaction, configureJwtClaims, RedactionOptions, BuiltInRedactionRule, JwtClaimsOptions } from './redaction.ts';
+export { CaptureRule } from './capture-policy.ts';
 export { getPackageVersion } from './version.ts';
@@ -8,8 +8,18 @@ import { InstrumentationOption, registerInstrumentations } from '@opentelemetry/
 import { ServiceDetector } from './resources/service.ts';
 import { getEnhancedHttpInstrumentations } from './enhanced-http.ts';
 import { VercelPlugin } from './http-plugins/vercel.ts';
+import { AwsPlugin } from './http-plugins/aws.ts';
+import { GraphQLPlugin, GraphQLPluginOptions } from './http-plugins/graphql.ts';
+import { GitHubWebhookPlugin, StripeWebhookPlugin, SvixWebhookPlugin } from './http-plugins/webhooks.ts';
+import { GenAiPlugin, GenAiPluginOptions } from './http-plugins/gen-ai.ts';
+import { registerMetrics } from './metrics.ts';
+import { NextjsRouteResolver } from './nextjs/route-resolver.ts';
+import { CaptureRule } from './capture-policy.ts';
+import { ConsoleLogOptions } from './console-logger.ts';
+import { configureJwtClaims, configureRedaction, JwtClaimsOptions, RedactionOptions } from './redaction.ts';
+import { HostMatcher } from './fetch-interceptor.ts';
 
-type KubiksSDKOpts = {
+export type KubiksSDKOpts = {
     instrumentations?: InstrumentationOption[],
     collectorUrl?: string,
     kubiksKey?: string,
@@ -32,23 +42,105 @@ type KubiksSDKOpts = {
      * @default true
      */
     enableFetchBodyCapture?: boolean
+    /**
+     * Export HTTP duration metrics to Kubiks over OTLP
+     * @default true
+     */
+    metrics?: boolean
+    /**
+     * How often metrics are exported
+     * @default 60000
+     */
+    metricExportIntervalMillis?: number
+    /**
+     * Redaction rules applied to headers, bodies, URLs and console log records
+     */
+    redaction?: RedactionOptions
+    /**
+     * Record claims of bearer JWTs from the Authorization header as span attributes
+     * @default { mode: 'off' }
+     */
+    jwtClaims?: JwtClaimsOptions
+    /**
+     * Name incoming spans after Next.js route patterns read from the build manifests
+     * @default true
+     */
+    nextjsRoutes?: boolean
+    /**
+     * The Next.js build output directory holding the manifests
+     * @default '.next'
+     */
+    nextjsDistDir?: string
+    /**
+     * Record gen_ai attributes for calls to OpenAI, Anthropic, Gemini and OpenAI-compatible APIs.
+     * Pass `{ captureContent: true }` to also record prompts and completions.
+     * @default true
+     */
+    genAi?: boolean | GenAiPluginOptions
+    /**
+     * Name GraphQL spans after the operation and mark responses with an `errors` array as failed
+     * @default true
+     */
+    graphql?: boolean | GraphQLPluginOptions
+    /**
+     * Name incoming Stripe, GitHub and Svix (e.g. Clerk) webhook deliveries after their event type
+     * @default true
+     */
+    webhooks?: boolean
+    /**
+     * Per host or URL rules for outgoing http, undici and fetch requests: whether to trace them,
+     * capture headers and bodies, and the body size limit. The first matching rule applies.
+     */
+    capturePolicy?: CaptureRule[]
+    /**
+     * Batching of console log exports, the depth and number of attributes recorded from object arguments,
+     * a minimum severity and rate limits per message template
+     */
+    consoleLogs?: ConsoleLogOptions
+    /**
+     * Inject W3C trace context (traceparent, tracestate, baggage) into outgoing fetch requests
+     * @default true
+     */
+    propagateTraceContext?: boolean
+    /**
+     * Only propagate trace context to these hosts and their subdomains (all hosts when empty)
+     */
+    propagationAllowHosts?: HostMatcher[]
+    /**
+     * Never propagate trace context to these hosts and their subdomains. Replaces the defaults.
+     * @default ['api.stripe.com', 'otlp.kubiks.ai']
+     */
+    propagationDenyHosts?: HostMatcher[]
 }
 
 /**
  * Get default instrumentations that work well with Next.js and Node.js applications
  */
 function getDefaultInstrumentations(options: KubiksSDKOpts = {}): InstrumentationOption[] {
+    const routeResolver = options.nextjsRoutes ? new NextjsRouteResolver({ distDir: options.nextjsDistDir }) : undefined;
     return [
         // Enhanced HTTP instrumentation with undici support for Next.js fetch
         ...getEnhancedHttpInstrumentations({
             plugins: [
-                new VercelPlugin() // Automatically include Vercel plugin for common use case
+                new VercelPlugin(), // Automatically include Vercel plugin for common use case
+                new AwsPlugin(),
+                ...(options.genAi !== false ? [new GenAiPlugin(options.genAi === true ? {} : options.genAi)] : []),
+                ...(options.graphql !== false ? [new GraphQLPlugin(options.graphql === true ? {} : options.graphql)] : []),
+                ...(options.webhooks !== false ? [new StripeWebhookPlugin(), new GitHubWebhookPlugin(), new SvixWebhookPlugin()] : []),
             ],
             requireParentforOutgoingSpans: false,
             captureBody: true, // Enable request/response body capture
             captureHeaders: true, // Enable header capture
             enableFetchBodyCapture: options.enableFetchBodyCapture !== false, // Enable full fetch body capture by default
             serviceName: options.service, // Pass the service name from main SDK configuration
+            flushMetricsOnResponseEnd: options.serverless && options.metrics, // Push metrics before the function freezes
+            flushLogsOnResponseEnd: options.serverless, // And the queued console logs
+            capturePolicy: options.capturePolicy,
+            consoleLogs: options.consoleLogs,
+            resolveRoute: routeResolver?.hasRoutes ? (request) => routeResolver.resolve(request.url) : undefined,
+            propagateTraceContext: options.propagateTraceContext,
+            propagationAllowHosts: options.propagationAllowHosts,
+            propagationDenyHosts: options.propagationDenyHosts,
         })
     ];
 }
@@ -68,6 +160,20 @@ function getDefaultInstrumentations(options: KubiksSDKOpts = {}): Instrumentatio
  * @param {boolean} options.log - Whether or not to enable the log exporter. Defaults to false.
  * @param {string} options.collectorUrl - The URL of the Kubiks collector. Defaults to https://otlp.kubiks.ai/v1
  * @param {Sampler} options.sampler - The OpenTelemetry sampler to use. Defaults to No Sampling.
+ * @param {boolean} options.metrics - Whether or not to export HTTP metrics to Kubiks. Defaults to true.
+ * @param {number} options.metricExportIntervalMillis - How often metrics are exported. Defaults to 60000.
+ * @param {RedactionOptions} options.redaction - Additional header, body, query string and hashing rules for redaction.
+ * @param {JwtClaimsOptions} options.jwtClaims - Which JWT claims to record as span attributes. Defaults to none.
+ * @param {boolean} options.nextjsRoutes - Whether or not to name incoming spans after Next.js route patterns. Defaults to true.
+ * @param {string} options.nextjsDistDir - The Next.js build output directory. Defaults to .next
+ * @param {boolean | GenAiPluginOptions} options.genAi - Whether or not to record gen_ai attributes for LLM API calls. Defaults to true.
+ * @param {boolean | GraphQLPluginOptions} options.graphql - Whether or not to name GraphQL spans after the operation. Defaults to true.
+ * @param {boolean} options.webhooks - Whether or not to name incoming webhook deliveries after their event type. Defaults to true.
+ * @param {CaptureRule[]} options.capturePolicy - Per host or URL rules for tracing and capturing outgoing requests.
+ * @param {ConsoleLogOptions} options.consoleLogs - Batching, attribute limits, minimum severity and rate limits for console logs.
+ * @param {boolean} options.propagateTraceContext - Whether or not to inject trace context into outgoing fetch requests. Defaults to true.
+ * @param {HostMatcher[]} options.propagationAllowHosts - Only propagate trace context to these hosts. Defaults to all hosts.
+ * @param {HostMatcher[]} options.propagationDenyHosts - Never propagate trace context to these hosts, replacing the defaults. Defaults to api.stripe.com and otlp.kubiks.ai.
  */
 export class KubiksSDK {
     options: KubiksSDKOpts;
@@ -78,24 +184,29 @@ export class KubiksSDK {
         options.kubiksKey = options.kubiksKey || process.env.KUBIKS_API_KEY || process.env.KUBIKS_KEY;
         options.includeDefaultInstrumentations = options.includeDefaultInstrumentations !== false; // Default to true
         options.enableFetchBodyCapture = options.enableFetchBodyCapture !== false; // Default to true
+        options.metrics = options.metrics !== false; // Default to true
+        options.nextjsRoutes = options.nextjsRoutes !== false; // Default to true
 
         this.options = options;
+        configureRedaction(options.redaction);
+        configureJwtClaims(options.jwtClaims);
     }
 
     start() {
         if (process.env.OTEL_LOG_LEVEL === "debug") {
             api.diag.setLogger(new DiagConsoleLogger(), DiagLogLevel.ALL);
         }
+        const resource = detectResourcesSync({
+            detectors: [
+                awsLambdaDetector,
+                new VercelDetector(),
+                ...(this.options.resourceDetectors || []),
+                new ServiceDetector({ serviceName: this.options.service, attributes: this.options.resourceAttributes })
+            ],
+        });
         const provider = new NodeTracerProvider({
             sampler: this.options.sampler,
-            resource: detectResourcesSync({
-                detectors: [
-                    awsLambdaDetector,
-                    new VercelDetector(),
-                    ...(this.options.resourceDetectors || []),
-                    new ServiceDetector({ serviceName: this.options.service, attributes: this.options.resourceAttributes })
-                ],
-            }),
+            resource,
             forceFlushTimeoutMillis: 5000,
         });
 
@@ -138,6 +249,16 @@ export class KubiksSDK {
 
         provider.register();
 
+        // Metrics must be registered before instrumentations so they pick up the global meter provider
+        if (this.options.kubiksKey && this.options.metrics) {
+            registerMetrics({
+                collectorUrl: this.options.collectorUrl,
+                kubiksKey: this.options.kubiksKey,
+                resource,
+                exportIntervalMillis: this.options.metricExportIntervalMillis,
+            });
+        }
+
         // Combine default instrumentations with user-provided ones
         const allInstrumentations = [
             ...(this.options.includeDefaultInstrumentations ? getDefaultInstrumentations(this.options) : []),
@@ -1 +1,5 @@
-export { withOpenTelemetry } from './lambda/index.ts'
\ No newline at end of file
+export { withOpenTelemetry, LambdaWrapperOptions } from './lambda/index.ts';
+export { KubiksLambdaSDK } from './lambda/sdk.ts';
+export { extractContext, extractRecordContext, injectContextToResponse } from './lambda/propation.ts';
+export { flushTraces } from './lambda/utils.ts';
+export { traceRecord } from './lambda/records.ts';
@@ -1,17 +1,24 @@
-import { trace, Context as OtelContext, Link } from "@opentelemetry/api";
+import { context, trace, Context as OtelContext, Link } from "@opentelemetry/api";
 import { Handler, Callback, Context } from "aws-lambda";
 import { flatten } from "flat"
 import { flushTraces, captureError, setupTimeoutDetection, trackColdstart } from "./utils.ts";
 import { parseInput } from "./parse-event.ts";
 import { extractContext, injectContextToResponse } from "./propation.ts";
+import { endRecordSpans, startRecordSpans } from "./records.ts";
 const tracer = trace.getTracer('@kubiks/kubiks-lambda-wrapper', '1');
 
-type LambdaWrapperOptions = {
+export type LambdaWrapperOptions = {
     proactiveInitializationThreshold?: number | undefined
     captureEvent?: boolean | undefined
     captureResponse?: boolean | undefined
     timeoutThreshold?: number | undefined
     extractContext?: (service: string, event: any) => { parent?: OtelContext, links?: Link[] } | void | undefined
+    /**
+     * Create a child span per record of SQS, Kinesis and DynamoDB batches, linked to the record's producer.
+     * Wrap the processing of each record with `traceRecord` to time it; records in `batchItemFailures` are marked as failed.
+     * @default false
+     */
+    recordSpans?: boolean | undefined
 }
 
 const isColdstart = trackColdstart();
@@ -33,8 +40,11 @@ export function withOpenTelemetry(handler: Handler, opts: LambdaWrapperOptions =
 
         return tracer.startActiveSpan(lambda_context.functionName, { links, attributes }, parent, async (span) => {
             setupTimeoutDetection(span, lambda_context, opts.timeoutThreshold);
+            const recordSpans = opts.recordSpans ? startRecordSpans(service, event, context.active()) : undefined;
+            let result: any;
+            let error: unknown;
             try {
-                let result = await handler(event, lambda_context, async (err, res) => {
+                result = await handler(event, lambda_context, async (err, res) => {
                     if (err) { captureError(span, err) }
 
                     if (res) {
@@ -44,6 +54,7 @@ export function withOpenTelemetry(handler: Handler, opts: LambdaWrapperOptions =
                         injectContextToResponse(service, res, span);
                     }
                     if (callback) {
+                        endRecordSpans(recordSpans, res, err);
                         span.end();
                         await flushTraces();
                         return callback(err, res);
@@ -59,9 +70,11 @@ export function withOpenTelemetry(handler: Handler, opts: LambdaWrapperOptions =
 
                 return result;
             } catch (e) {
+                error = e;
                 captureError(span, e);
                 throw e;
             } finally {
+                endRecordSpans(recordSpans, result, error);
                 span.end();
                 await flushTraces();
             }
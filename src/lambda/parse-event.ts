@@ -58,7 +58,7 @@ function getS3DocumentAttributes(event: S3Event): FaasDocument {
     }
 }
 
-function parseJSON(str: string) {
+export function parseJSON(str: string) {
     try {
         return JSON.parse(str);
     } catch (error) {
@@ -135,6 +135,10 @@ function detectService(event: any) {
         return "eventbridge";
     }
 
+    if (event["detail-type"] !== undefined && event.source && event.detail) {
+        return "eventbridge";
+    }
+
     if (
         process.env.KUBIKS_TRACE_STEP_FUNCTION === "true" ||
         event.Payload?._kubiks?.traceparent || event._kubiks?.traceparent ||
@@ -192,7 +196,8 @@ export function parseInput(event: any, lambda_context: LambdaContext, coldstart:
         cloud: {
             resource_id: lambda_context.invokedFunctionArn,
             account_id: lambda_context.invokedFunctionArn.split(":")[4],
-        }
+        },
+        ...(Array.isArray(event?.Records) ? { messaging: { batch: { message_count: event.Records.length } } } : {}),
     }) satisfies Attributes
 
     return { attributes, service }
@@ -0,0 +1,131 @@
+import { propagation, ROOT_CONTEXT, trace, TraceFlags } from "@opentelemetry/api";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { extractContext, extractRecordContext } from "./propation.ts";
+
+const TRACE_ID = '5759e988bd862e3fe1be46a994272793';
+const SPAN_ID = '53995c3f42cd8ad8';
+
+function sqsRecord(messageId: string, awsTraceHeader?: string, messageAttributes?: Record<string, { stringValue: string }>) {
+    return {
+        messageId,
+        body: '{}',
+        attributes: awsTraceHeader ? { AWSTraceHeader: awsTraceHeader } : {},
+        messageAttributes: messageAttributes || {},
+    };
+}
+
+beforeAll(() => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+});
+
+afterAll(() => {
+    propagation.disable();
+});
+
+describe('AWSTraceHeader', () => {
+    it('parses the X-Ray root, parent and sampling decision', () => {
+        const record = sqsRecord('1', `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${SPAN_ID};Sampled=1`);
+
+        expect(extractRecordContext('sqs', record)).toEqual({
+            traceId: TRACE_ID,
+            spanId: SPAN_ID,
+            traceFlags: TraceFlags.SAMPLED,
+            isRemote: true,
+        });
+    });
+
+    it('marks unsampled or undecided traces as not sampled', () => {
+        const unsampled = sqsRecord('1', `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${SPAN_ID};Sampled=0`);
+        const undecided = sqsRecord('2', `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${SPAN_ID}`);
+
+        expect(extractRecordContext('sqs', unsampled)?.traceFlags).toBe(TraceFlags.NONE);
+        expect(extractRecordContext('sqs', undecided)?.traceFlags).toBe(TraceFlags.NONE);
+    });
+
+    it('ignores field order and whitespace', () => {
+        const record = sqsRecord('1', `Sampled=1; Parent=${SPAN_ID}; Root=1-5759e988-bd862e3fe1be46a994272793`);
+
+        expect(extractRecordContext('sqs', record)?.traceId).toBe(TRACE_ID);
+    });
+
+    it('rejects malformed headers', () => {
+        const headers = [
+            `Root=1-5759e988-bd862e3fe1be46a994272793`,
+            `Parent=${SPAN_ID};Sampled=1`,
+            `Root=5759e988bd862e3fe1be46a994272793;Parent=${SPAN_ID}`,
+            `Root=1-00000000-000000000000000000000000;Parent=${SPAN_ID}`,
+            `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=not-a-span-id`,
+            `garbage`,
+        ];
+
+        for (const header of headers) {
+            expect(extractRecordContext('sqs', sqsRecord('1', header))).toBeUndefined();
+        }
+    });
+
+    it('prefers a traceparent message attribute', () => {
+        const record = sqsRecord('1', `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${SPAN_ID};Sampled=1`, {
+            traceparent: { stringValue: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' },
+        });
+
+        expect(extractRecordContext('sqs', record)?.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+    });
+});
+
+describe('batch trace context', () => {
+    it('continues the trace of a single record', () => {
+        const record = sqsRecord('1', `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${SPAN_ID};Sampled=1`);
+
+        const { parent, links } = extractContext('sqs', { Records: [record] }, undefined);
+
+        expect(trace.getSpanContext(parent!)?.spanId).toBe(SPAN_ID);
+        expect(links).toBeUndefined();
+    });
+
+    it('links every record that carries a trace context to a new root span', () => {
+        const records = [
+            sqsRecord('first', `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${SPAN_ID};Sampled=1`),
+            sqsRecord('untraced'),
+            sqsRecord('second', undefined, {
+                traceparent: { stringValue: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' },
+            }),
+        ];
+
+        const { parent, links } = extractContext('sqs', { Records: records }, undefined);
+
+        expect(parent).toBe(ROOT_CONTEXT);
+        expect(links).toEqual([
+            {
+                context: expect.objectContaining({ traceId: TRACE_ID, spanId: SPAN_ID }),
+                attributes: { 'messaging.message.id': 'first' },
+            },
+            {
+                context: expect.objectContaining({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331' }),
+                attributes: { 'messaging.message.id': 'second' },
+            },
+        ]);
+    });
+
+    it('starts a new root span without links when no record is traced', () => {
+        const { parent, links } = extractContext('sqs', { Records: [sqsRecord('1'), sqsRecord('2')] }, undefined);
+
+        expect(parent).toBe(ROOT_CONTEXT);
+        expect(links).toEqual([]);
+    });
+
+    it('links Kinesis records by their event id', () => {
+        const data = (traceparent: string) => Buffer.from(JSON.stringify({ _kubiks: { traceparent } })).toString('base64');
+        const records = [
+            { eventID: 'shard-1:1', kinesis: { data: data('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01') } },
+            { eventID: 'shard-1:2', kinesis: { data: data(`00-${TRACE_ID}-${SPAN_ID}-01`) } },
+        ];
+
+        const { links } = extractContext('kinesis', { Records: records }, undefined);
+
+        expect(links?.map(link => [link.context.spanId, link.attributes?.['messaging.message.id']])).toEqual([
+            ['b7ad6b7169203331', 'shard-1:1'],
+            [SPAN_ID, 'shard-1:2'],
+        ]);
+    });
+});
@@ -1,4 +1,5 @@
-import { context, propagation, ROOT_CONTEXT, Link, Context, Span, trace } from "@opentelemetry/api";
+import { context, propagation, ROOT_CONTEXT, Link, Context, Span, SpanContext, trace, TraceFlags, isSpanContextValid, TextMapGetter } from "@opentelemetry/api";
+import { parseJSON } from "./parse-event.ts";
 
 const headerGetter = {
     keys(carrier: Object): string[] {
@@ -18,6 +19,111 @@ const snsGetter = {
     },
 };
 
+const sqsGetter = {
+    keys(carrier: Object): string[] {
+        return Object.keys(carrier);
+    },
+    get(carrier: Record<string, { stringValue?: string }>, key: string): string | undefined {
+        return carrier[key]?.stringValue;
+    },
+};
+
+function extractSpanContext(carrier: any, getter: TextMapGetter): SpanContext | undefined {
+    // Extract into the root context so an active span is never mistaken for the producer
+    const spanContext = trace.getSpanContext(propagation.extract(ROOT_CONTEXT, carrier, getter));
+    return spanContext && isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+// X-Ray header set by AWS on SQS messages: Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1
+function parseAWSTraceHeader(header: string): SpanContext | undefined {
+    const fields: Record<string, string> = {};
+    for (const field of header.split(';')) {
+        const [key, value] = field.split('=');
+        fields[key.trim()] = value;
+    }
+    const root = fields.Root?.split('-');
+    if (!root || root.length !== 3 || !fields.Parent) {
+        return undefined;
+    }
+    const spanContext: SpanContext = {
+        traceId: root[1] + root[2],
+        spanId: fields.Parent,
+        traceFlags: fields.Sampled === '1' ? TraceFlags.SAMPLED : TraceFlags.NONE,
+        isRemote: true,
+    };
+    return isSpanContextValid(spanContext) ? spanContext : undefined;
+}
+
+/**
+ * Extract the producer span context of a single SQS or Kinesis record, or of an EventBridge event
+ */
+export function extractRecordContext(service: string, record: any): SpanContext | undefined {
+    switch (service) {
+        case "sqs": {
+            const fromAttributes = extractSpanContext(record.messageAttributes || {}, sqsGetter);
+            if (fromAttributes) {
+                return fromAttributes;
+            }
+            // SNS subscriptions without raw message delivery wrap the SNS notification in the body
+            const body = parseJSON(record.body);
+            if (body?.Type === 'Notification' && body.MessageAttributes) {
+                const fromNotification = extractSpanContext(body.MessageAttributes, snsGetter);
+                if (fromNotification) {
+                    return fromNotification;
+                }
+            }
+            return record.attributes?.AWSTraceHeader ? parseAWSTraceHeader(record.attributes.AWSTraceHeader) : undefined;
+        }
+        case "kinesis": {
+            const data = parseJSON(Buffer.from(record.kinesis?.data || '', 'base64').toString('utf8'));
+            return typeof data === 'object' && data?._kubiks ? extractSpanContext(data._kubiks, headerGetter) : undefined;
+        }
+        case "eventbridge":
+            return record.detail?._kubiks ? extractSpanContext(record.detail._kubiks, headerGetter) : undefined;
+        default:
+            return undefined;
+    }
+}
+
+export function getRecordMessageId(service: string, record: any): string | undefined {
+    switch (service) {
+        case "sqs":
+            return record.messageId;
+        case "kinesis":
+        case "dynamodb":
+            return record.eventID;
+        case "sns":
+            return record.Sns?.MessageId;
+        default:
+            return undefined;
+    }
+}
+
+// A batch can carry messages from many traces, so each record becomes a link unless there is a single record
+function extractBatchContext(service: string, records: any[]): { parent?: Context, links?: Link[] } {
+    const spanContexts = records.map(record => extractRecordContext(service, record));
+    if (records.length === 1 && spanContexts[0]) {
+        return {
+            parent: trace.setSpanContext(ROOT_CONTEXT, spanContexts[0]),
+        };
+    }
+
+    const links: Link[] = [];
+    spanContexts.forEach((spanContext, index) => {
+        if (!spanContext) {
+            return;
+        }
+        const messageId = getRecordMessageId(service, records[index]);
+        links.push({
+            context: spanContext,
+            attributes: messageId ? { 'messaging.message.id': messageId } : undefined,
+        });
+    });
+    return {
+        parent: ROOT_CONTEXT,
+        links,
+    };
+}
 
 export function extractContext(service: string, event: any, cb: (service: string, event: any) => { parent?: Context, links?: Link[] } | void | undefined): { parent?: Context, links?: Link[] } {
     if (cb) {
@@ -39,6 +145,14 @@ export function extractContext(service: string, event: any, cb: (service: string
             return {
                 parent: propagation.extract(context.active(), event.Records[0].Sns.MessageAttributes, snsGetter)
             }
+        case "sqs":
+        case "kinesis":
+            return extractBatchContext(service, event.Records || []);
+        case "eventbridge":
+            const eventContext = extractRecordContext(service, event);
+            return {
+                parent: eventContext ? trace.setSpanContext(ROOT_CONTEXT, eventContext) : ROOT_CONTEXT,
+            };
         case 'step-function':
             if (Array.isArray(event)) {
                 return {
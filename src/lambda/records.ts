@@ -0,0 +1,176 @@
+import { context, trace, Context as OtelContext, Span, SpanKind, SpanStatusCode, Attributes } from "@opentelemetry/api";
+import { hrTime } from "@opentelemetry/core";
+import { captureError } from "./utils.ts";
+import { extractRecordContext, getRecordMessageId } from "./propation.ts";
+
+const tracer = trace.getTracer('@kubiks/kubiks-lambda-wrapper', '1');
+
+const BATCH_SERVICES = ["sqs", "kinesis", "dynamodb"];
+
+const MESSAGING_SYSTEMS: Record<string, string> = {
+    sqs: "aws_sqs",
+    kinesis: "aws_kinesis",
+    dynamodb: "aws_dynamodb",
+};
+
+type RecordSpan = {
+    span: Span,
+    endTime?: ReturnType<typeof hrTime>,
+    failed?: boolean,
+}
+
+export type RecordSpans = {
+    service: string,
+    parent: OtelContext,
+    startTime: ReturnType<typeof hrTime>,
+    records: any[],
+    spans: Map<any, RecordSpan>,
+    ended: boolean,
+}
+
+// Records of in-flight batches, so traceRecord can find the batch a record belongs to
+const batches = new WeakMap<object, RecordSpans>();
+
+/**
+ * The identifier AWS expects in `batchItemFailures` for a record
+ */
+function getItemIdentifier(service: string, record: any): string | undefined {
+    switch (service) {
+        case "sqs":
+            return record.messageId;
+        case "kinesis":
+            return record.kinesis?.sequenceNumber;
+        case "dynamodb":
+            return record.dynamodb?.SequenceNumber;
+        default:
+            return undefined;
+    }
+}
+
+function getDestination(record: any): string | undefined {
+    // arn:aws:sqs:us-east-1:123456789012:my-queue, arn:aws:kinesis:us-east-1:123456789012:stream/my-stream
+    const arn: string | undefined = record.eventSourceARN;
+    if (!arn) {
+        return undefined;
+    }
+    const resource = arn.split(":").slice(5).join(":");
+    return resource.split("/")[1] || resource;
+}
+
+function startRecordSpan(batch: RecordSpans, record: any, startTime?: ReturnType<typeof hrTime>): RecordSpan {
+    const destination = getDestination(record);
+    const messageId = getRecordMessageId(batch.service, record);
+    const producer = extractRecordContext(batch.service, record);
+
+    const attributes: Attributes = {
+        'messaging.system': MESSAGING_SYSTEMS[batch.service],
+        'messaging.operation': 'process',
+    };
+    if (destination) {
+        attributes['messaging.destination.name'] = destination;
+    }
+    if (messageId) {
+        attributes['messaging.message.id'] = messageId;
+    }
+
+    const span = tracer.startSpan(`${destination || batch.service} process`, {
+        kind: SpanKind.CONSUMER,
+        attributes,
+        links: producer ? [{ context: producer }] : undefined,
+        startTime,
+    }, batch.parent);
+
+    const recordSpan: RecordSpan = { span };
+    batch.spans.set(record, recordSpan);
+    return recordSpan;
+}
+
+/**
+ * Prepare one child span per record of an SQS, Kinesis or DynamoDB batch.
+ * Spans start when the record is passed to `traceRecord`, or cover the whole invocation otherwise.
+ */
+export function startRecordSpans(service: string, event: any, parent: OtelContext): RecordSpans | undefined {
+    if (!BATCH_SERVICES.includes(service) || !Array.isArray(event?.Records)) {
+        return undefined;
+    }
+
+    const batch: RecordSpans = {
+        service,
+        parent,
+        startTime: hrTime(),
+        records: event.Records,
+        spans: new Map(),
+        ended: false,
+    };
+    for (const record of batch.records) {
+        if (record && typeof record === 'object') {
+            batches.set(record, batch);
+        }
+    }
+    return batch;
+}
+
+/**
+ * Run the processing of a single batch record inside its own span, when the handler is wrapped with `recordSpans: true`.
+ * Errors are recorded on the record span and rethrown.
+ *
+ * @example
+ * for (const record of event.Records) {
+ *     await traceRecord(record, () => processMessage(JSON.parse(record.body)));
+ * }
+ */
+export async function traceRecord<T>(record: any, fn: () => Promise<T> | T): Promise<T> {
+    const batch = record && typeof record === 'object' ? batches.get(record) : undefined;
+    if (!batch || batch.ended) {
+        return fn();
+    }
+
+    const recordSpan = batch.spans.get(record) || startRecordSpan(batch, record);
+    try {
+        return await context.with(trace.setSpan(context.active(), recordSpan.span), fn);
+    } catch (e) {
+        recordSpan.failed = true;
+        captureError(recordSpan.span, e);
+        throw e;
+    } finally {
+        // Ended together with the batch, so a record reported in batchItemFailures can still be marked as failed
+        recordSpan.endTime = hrTime();
+    }
+}
+
+/**
+ * End all record spans with their outcome. Records listed in an SQS partial batch response (`batchItemFailures`),
+ * and every record not yet completed when the handler throws, are marked as errors.
+ */
+export function endRecordSpans(batch: RecordSpans | undefined, result: any, error?: unknown) {
+    if (!batch || batch.ended) {
+        return;
+    }
+    batch.ended = true;
+
+    const failedItems = new Set<string>(
+        Array.isArray(result?.batchItemFailures)
+            ? result.batchItemFailures.map((failure: { itemIdentifier?: string }) => failure?.itemIdentifier)
+            : []
+    );
+
+    for (const record of batch.records) {
+        const recordSpan = batch.spans.get(record) || startRecordSpan(batch, record, batch.startTime);
+        const identifier = getItemIdentifier(batch.service, record);
+
+        if (identifier && failedItems.has(identifier)) {
+            recordSpan.failed = true;
+        }
+        if (error && !recordSpan.endTime) {
+            recordSpan.failed = true;
+            captureError(recordSpan.span, error);
+        }
+
+        recordSpan.span.setAttribute('faas.record.outcome', recordSpan.failed ? 'failure' : 'success');
+        if (recordSpan.failed) {
+            recordSpan.span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        recordSpan.span.end(recordSpan.endTime);
+        batches.delete(record);
+    }
+}
@@ -0,0 +1,27 @@
+import { KubiksSDK, KubiksSDKOpts } from "../kubiks.ts";
+import { setTracerProvider } from "./utils.ts";
+
+/**
+ * KubiksLambdaSDK is a KubiksSDK tuned for AWS Lambda.
+ *
+ * Spans are exported as soon as they end (SimpleSpanProcessor) and `withOpenTelemetry` flushes
+ * traces, metrics and console logs before the handler returns, so nothing is lost when the execution environment freezes.
+ *
+ * @param {string} options.service - The name of the service. Defaults to OTEL_SERVICE_NAME, then AWS_LAMBDA_FUNCTION_NAME.
+ */
+export class KubiksLambdaSDK extends KubiksSDK {
+    constructor(options: KubiksSDKOpts = {}) {
+        super({
+            nextjsRoutes: false, // No Next.js build manifests in a Lambda bundle
+            ...options,
+            service: options.service || process.env.OTEL_SERVICE_NAME || process.env.AWS_LAMBDA_FUNCTION_NAME,
+            serverless: true,
+        });
+    }
+
+    override start() {
+        const provider = super.start();
+        setTracerProvider(provider);
+        return provider;
+    }
+}
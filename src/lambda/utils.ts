@@ -1,6 +1,9 @@
-import { Span, trace } from "@opentelemetry/api";
+import { Span } from "@opentelemetry/api";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
 import { Context } from "aws-lambda";
 import { flatten } from "flat";
+import { flushMetrics } from "../metrics.ts";
+import { flushLogs } from "../console-logger.ts";
 
 const timeoutErrorMessage = `The Kubiks OpenTelemetry SDK has detected that this lambda is very close to timing out.`
 
@@ -39,10 +42,23 @@ export function captureError(span: Span, err: unknown) {
     span.setAttributes(flatten({ error: { name: error.name, message: error.message, stack: error.stack } }));
 }
 
+// The provider started by KubiksLambdaSDK
+let tracerProvider: NodeTracerProvider | undefined;
+
+export function setTracerProvider(provider: NodeTracerProvider) {
+    tracerProvider = provider;
+}
+
+/**
+ * Export pending spans, metrics and console logs, e.g. before the execution environment freezes
+ */
 export async function flushTraces() {
     try {
-        // @ts-expect-error
-        await trace.getTracerProvider().getDelegate().forceFlush();
+        await Promise.all([
+            tracerProvider?.forceFlush(),
+            flushMetrics(),
+            flushLogs(),
+        ]);
     } catch (_) {
     }
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { emitLogRecord, SeverityNumber } from "../console-logger.ts";
+import { LogValue } from "../console-format.ts";
+import { redactText } from "../redaction.ts";
+
+export type BridgedRecord = {
+    /**
+     * The logger the record came from, recorded as `source`
+     */
+    source: string,
+    severityNumber: SeverityNumber,
+    /**
+     * The logger's own level name, recorded as `log.type`
+     */
+    level: string,
+    message: string,
+    /**
+     * Bindings and metadata, recorded as typed attributes
+     */
+    fields: Record<string, unknown>,
+    error?: unknown,
+    timestamp?: number,
+}
+
+/**
+ * Feed a record from a logging library into the console logger's pipeline
+ */
+export function emitBridgedRecord(record: BridgedRecord): void {
+    const errorAttributes = getErrorAttributes(record.error);
+    emitLogRecord({
+        source: record.source,
+        // `logger.error(err)` has no message of its own
+        body: record.message || (typeof errorAttributes['error.message'] === 'string' ? errorAttributes['error.message'] : ''),
+        severityText: SeverityNumber[record.severityNumber],
+        severityNumber: record.severityNumber,
+        timestamp: record.timestamp,
+        attributes: {
+            'log.type': record.level,
+            ...errorAttributes,
+        },
+        fields: [record.fields],
+    });
+}
+
+/**
+ * pino and bunyan levels: 10 trace, 20 debug, 30 info, 40 warn, 50 error, 60 fatal
+ */
+export function severityFromLevelNumber(level: number): SeverityNumber {
+    if (level <= 10) return SeverityNumber.TRACE;
+    if (level <= 20) return SeverityNumber.DEBUG;
+    if (level <= 30) return SeverityNumber.INFO;
+    if (level <= 40) return SeverityNumber.WARN;
+    if (level <= 50) return SeverityNumber.ERROR;
+    return SeverityNumber.FATAL;
+}
+
+export const LEVEL_NAMES: Record<number, string> = { 10: 'trace', 20: 'debug', 30: 'info', 40: 'warn', 50: 'error', 60: 'fatal' };
+
+/**
+ * Errors arrive as Error objects or already serialized by the logger, e.g. `{ type, message, stack }` from pino
+ */
+function getErrorAttributes(error: unknown): Record<string, LogValue> {
+    if (!error || typeof error !== 'object') {
+        return {};
+    }
+    const { type, name, message, stack } = error as { type?: unknown, name?: unknown, message?: unknown, stack?: unknown };
+    const errorType = error instanceof Error ? error.constructor.name : typeof type === 'string' ? type : name;
+    const attributes: Record<string, LogValue> = {};
+    if (typeof errorType === 'string') {
+        attributes['error.type'] = errorType;
+    }
+    if (typeof message === 'string') {
+        attributes['error.message'] = redactText(message);
+    }
+    if (typeof stack === 'string') {
+        attributes['error.stack'] = redactText(stack);
+    }
+    return attributes;
+}
+
+export function parseTimestamp(time: unknown): number | undefined {
+    if (time instanceof Date) {
+        return time.getTime();
+    }
+    if (typeof time === 'number') {
+        return time;
+    }
+    if (typeof time === 'string') {
+        const parsed = Date.parse(time);
+        return isNaN(parsed) ? undefined : parsed;
+    }
+    return undefined;
+}
+
+export function omit(record: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+        if (!keys.includes(key)) {
+            fields[key] = value;
+        }
+    }
+    return fields;
+}
@@ -0,0 +1,39 @@
+import { emitBridgedRecord, LEVEL_NAMES, omit, parseTimestamp, severityFromLevelNumber } from "./bridge.ts";
+
+/**
+ * A bunyan raw stream sending each record to Kubiks:
+ *
+ * ```js
+ * bunyan.createLogger({ name: 'app', streams: [{ stream: process.stdout }, { type: 'raw', stream: createBunyanStream() }] })
+ * ```
+ */
+export function createBunyanStream(): { write(record: object): void } {
+    return {
+        write(record: object) {
+            // Non-raw streams are handed the serialized line
+            const fields = typeof record === 'string' ? safeParse(record) : record as Record<string, unknown>;
+            if (!fields) {
+                return;
+            }
+            const level = typeof fields.level === 'number' ? fields.level : 30;
+
+            emitBridgedRecord({
+                source: 'bunyan',
+                severityNumber: severityFromLevelNumber(level),
+                level: LEVEL_NAMES[level] || String(level),
+                message: typeof fields.msg === 'string' ? fields.msg : '',
+                fields: omit(fields, ['v', 'level', 'time', 'pid', 'hostname', 'msg', 'err']),
+                error: fields.err,
+                timestamp: parseTimestamp(fields.time),
+            });
+        },
+    };
+}
+
+function safeParse(line: string): Record<string, unknown> | undefined {
+    try {
+        return JSON.parse(line);
+    } catch (error) {
+        return undefined;
+    }
+}
@@ -0,0 +1,68 @@
+import { SeverityNumber } from "../console-logger.ts";
+import { emitBridgedRecord, LEVEL_NAMES, omit, parseTimestamp, severityFromLevelNumber } from "./bridge.ts";
+
+export type PinoDestinationOptions = {
+    /**
+     * The logger's `messageKey`
+     * @default 'msg'
+     */
+    messageKey?: string,
+    /**
+     * The logger's `errorKey`
+     * @default 'err'
+     */
+    errorKey?: string,
+}
+
+const LEVEL_LABELS: Record<string, SeverityNumber> = {
+    trace: SeverityNumber.TRACE,
+    debug: SeverityNumber.DEBUG,
+    info: SeverityNumber.INFO,
+    warn: SeverityNumber.WARN,
+    error: SeverityNumber.ERROR,
+    fatal: SeverityNumber.FATAL,
+};
+
+/**
+ * A pino destination sending each line to Kubiks as a log record. Pino writes synchronously, so records
+ * carry the trace of the code that logged them. Combine it with your usual output:
+ *
+ * ```js
+ * pino({}, pino.multistream([{ stream: process.stdout }, { stream: createPinoDestination() }]))
+ * ```
+ */
+export function createPinoDestination(options: PinoDestinationOptions = {}): { write(line: string): void } {
+    const messageKey = options.messageKey || 'msg';
+    const errorKey = options.errorKey || 'err';
+
+    return {
+        write(line: string) {
+            let record: Record<string, unknown>;
+            try {
+                record = JSON.parse(line);
+            } catch (error) {
+                // Not JSON, e.g. a custom serializer, keep the line as it is
+                emitBridgedRecord({ source: 'pino', severityNumber: SeverityNumber.INFO, level: 'info', message: line.trim(), fields: {} });
+                return;
+            }
+
+            // Numeric by default, the label when `formatters.level` is used
+            const level = record.level;
+            const severityNumber = typeof level === 'number'
+                ? severityFromLevelNumber(level)
+                : LEVEL_LABELS[String(level)] ?? SeverityNumber.INFO;
+            const message = record[messageKey];
+
+            emitBridgedRecord({
+                source: 'pino',
+                severityNumber,
+                level: typeof level === 'number' ? LEVEL_NAMES[level] || String(level) : String(level ?? 'info'),
+                message: typeof message === 'string' ? message : message === undefined ? '' : JSON.stringify(message),
+                // Bindings such as child logger fields and the merging object of the call
+                fields: omit(record, ['level', 'time', 'pid', 'hostname', messageKey, errorKey]),
+                error: record[errorKey],
+                timestamp: parseTimestamp(record.time),
+            });
+        },
+    };
+}
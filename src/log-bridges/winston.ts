@@ -0,0 +1,88 @@
+import { Writable } from "stream";
+import { SeverityNumber } from "../console-logger.ts";
+import { emitBridgedRecord, omit, parseTimestamp } from "./bridge.ts";
+
+// npm and syslog levels
+const WINSTON_LEVELS: Record<string, SeverityNumber> = {
+    emerg: SeverityNumber.FATAL,
+    alert: SeverityNumber.FATAL,
+    crit: SeverityNumber.FATAL,
+    error: SeverityNumber.ERROR,
+    warning: SeverityNumber.WARN,
+    warn: SeverityNumber.WARN,
+    notice: SeverityNumber.INFO,
+    info: SeverityNumber.INFO,
+    http: SeverityNumber.INFO,
+    verbose: SeverityNumber.DEBUG,
+    debug: SeverityNumber.DEBUG,
+    silly: SeverityNumber.TRACE,
+};
+
+// The uncolorized level winston keeps next to `level`
+const LEVEL = Symbol.for('level');
+
+type WinstonInfo = Record<string | symbol, unknown> & { level: string, message?: unknown };
+
+type WinstonLogger = { level?: string, levels?: Record<string, number> };
+
+export type KubiksWinstonTransportOptions = {
+    /**
+     * The least severe level sent to Kubiks, defaults to the logger's level
+     */
+    level?: string,
+}
+
+/**
+ * A winston transport sending each entry to Kubiks as a log record:
+ *
+ * ```js
+ * winston.createLogger({ transports: [new winston.transports.Console(), new KubiksWinstonTransport()] })
+ * ```
+ */
+export class KubiksWinstonTransport extends Writable {
+    level?: string;
+    private parent?: WinstonLogger;
+
+    constructor(options: KubiksWinstonTransportOptions = {}) {
+        // Winston only accepts object mode streams as transports
+        super({ objectMode: true });
+        this.level = options.level;
+        this.on('pipe', (logger: WinstonLogger) => {
+            this.parent = logger;
+        });
+    }
+
+    log(info: WinstonInfo, callback: () => void) {
+        const level = typeof info[LEVEL] === 'string' ? info[LEVEL] as string : info.level;
+        if (this.isEnabled(level)) {
+            const error = [info.error, info.err].find(value => value instanceof Error)
+                // `format.errors()` copies the stack onto the entry
+                ?? (typeof info.stack === 'string' ? { message: info.message, stack: info.stack } : undefined);
+
+            emitBridgedRecord({
+                source: 'winston',
+                severityNumber: WINSTON_LEVELS[level] ?? SeverityNumber.INFO,
+                level,
+                message: typeof info.message === 'string' ? info.message : info.message === undefined ? '' : JSON.stringify(info.message),
+                // Default metadata and the metadata of the call, symbol keys hold winston's own state
+                fields: omit(info, ['level', 'message', 'timestamp', 'stack', 'error', 'err']),
+                error,
+                timestamp: parseTimestamp(info.timestamp),
+            });
+        }
+        callback();
+    }
+
+    _write(info: WinstonInfo, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+        this.log(info, callback);
+    }
+
+    private isEnabled(level: string): boolean {
+        const levels = this.parent?.levels;
+        const threshold = this.level || this.parent?.level;
+        if (!levels || !threshold || levels[level] === undefined || levels[threshold] === undefined) {
+            return true;
+        }
+        return levels[level] <= levels[threshold];
+    }
+}
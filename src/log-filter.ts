@@ -0,0 +1,128 @@
+import { SpanContext, TraceFlags } from "@opentelemetry/api";
+
+export type LogRateLimit = {
+    /**
+     * Records sharing a message template kept per interval, the rest are suppressed
+     * @default 100
+     */
+    maxPerTemplate?: number,
+    /**
+     * @default 1000
+     */
+    intervalMillis?: number,
+}
+
+export type LogFilterOptions = {
+    /**
+     * Records less severe than this are dropped
+     */
+    minSeverityNumber?: number,
+    rateLimit?: LogRateLimit | false,
+    /**
+     * Drop records logged inside traces the sampler dropped
+     */
+    sampleWithTraces?: boolean,
+}
+
+export type SuppressedLogs = {
+    rateLimited: number,
+    sampledOut: number,
+    /**
+     * The templates that hit the rate limit, most suppressed first
+     */
+    templates: string[],
+}
+
+// Past this many templates in one interval, new ones share a single limit
+const MAX_TEMPLATES = 1000;
+const OVERFLOW_TEMPLATE = '<other>';
+const SUMMARY_INTERVAL_MILLIS = 10000;
+
+/**
+ * Decides which log records are exported: a severity threshold, sampling along with the active trace
+ * and a rate limit per message template. Suppressed records are counted for a periodic summary.
+ */
+export class LogFilter {
+    private minSeverityNumber: number;
+    private maxPerTemplate: number;
+    private intervalMillis: number;
+    private sampleWithTraces: boolean;
+    private windowStart = 0;
+    private counts = new Map<string, number>();
+    private rateLimited = new Map<string, number>();
+    private sampledOut = 0;
+    private lastSummary = Date.now();
+
+    constructor(options: LogFilterOptions = {}) {
+        this.minSeverityNumber = options.minSeverityNumber ?? 0;
+        this.maxPerTemplate = options.rateLimit === false ? Infinity : options.rateLimit?.maxPerTemplate ?? 100;
+        this.intervalMillis = options.rateLimit === false ? Infinity : options.rateLimit?.intervalMillis ?? 1000;
+        this.sampleWithTraces = options.sampleWithTraces !== false;
+    }
+
+    isEnabled(severityNumber: number): boolean {
+        return severityNumber >= this.minSeverityNumber;
+    }
+
+    shouldEmit(severityNumber: number, template: string, spanContext: SpanContext | undefined, now = Date.now()): boolean {
+        if (!this.isEnabled(severityNumber)) {
+            return false;
+        }
+        if (this.sampleWithTraces && spanContext && (spanContext.traceFlags & TraceFlags.SAMPLED) === 0) {
+            this.sampledOut++;
+            return false;
+        }
+        if (this.maxPerTemplate === Infinity) {
+            return true;
+        }
+
+        if (now - this.windowStart >= this.intervalMillis) {
+            this.windowStart = now;
+            this.counts.clear();
+        }
+        let key = normalizeTemplate(template);
+        if (!this.counts.has(key) && this.counts.size >= MAX_TEMPLATES) {
+            key = OVERFLOW_TEMPLATE;
+        }
+        const count = (this.counts.get(key) || 0) + 1;
+        this.counts.set(key, count);
+        if (count > this.maxPerTemplate) {
+            this.rateLimited.set(key, (this.rateLimited.get(key) || 0) + 1);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * What was suppressed since the last summary, at most every 10 seconds unless forced
+     */
+    takeSummary(force = false, now = Date.now()): SuppressedLogs | undefined {
+        if (this.sampledOut === 0 && this.rateLimited.size === 0) {
+            return undefined;
+        }
+        if (!force && now - this.lastSummary < SUMMARY_INTERVAL_MILLIS) {
+            return undefined;
+        }
+        this.lastSummary = now;
+
+        const templates = [...this.rateLimited.entries()].sort((a, b) => b[1] - a[1]).map(([template]) => template);
+        const summary = {
+            rateLimited: [...this.rateLimited.values()].reduce((total, count) => total + count, 0),
+            sampledOut: this.sampledOut,
+            templates: templates.slice(0, 10),
+        };
+        this.rateLimited.clear();
+        this.sampledOut = 0;
+        return summary;
+    }
+}
+
+/**
+ * Mask the values that vary between calls of the same log statement, `user 42 logged in` -> `user # logged in`
+ */
+export function normalizeTemplate(message: string): string {
+    return message
+        .slice(0, 200)
+        .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '#')
+        .replace(/\b(0x)?[0-9a-f]*\d[0-9a-f]*\b/gi, '#');
+}
@@ -0,0 +1,56 @@
+import { metrics } from '@opentelemetry/api';
+import { MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { IResource } from '@opentelemetry/resources';
+
+type MetricsOptions = {
+    collectorUrl: string,
+    kubiksKey: string,
+    resource: IResource,
+    /**
+     * How often metrics are pushed to the collector
+     * @default 60000
+     */
+    exportIntervalMillis?: number,
+}
+
+let meterProvider: MeterProvider | undefined;
+
+/**
+ * Register a global MeterProvider that pushes metrics to the Kubiks collector over OTLP/HTTP.
+ * Instrumentations registered afterwards record their histograms against it.
+ */
+export function registerMetrics(options: MetricsOptions): MeterProvider {
+    const exportIntervalMillis = options.exportIntervalMillis || 60000;
+
+    const exporter = new OTLPMetricExporter({
+        url: options.collectorUrl + "/v1/metrics",
+        headers: {
+            "X-Kubiks-Key": options.kubiksKey,
+        },
+        timeoutMillis: 1000,
+    });
+
+    meterProvider = new MeterProvider({
+        resource: options.resource,
+        readers: [
+            new PeriodicExportingMetricReader({
+                exporter,
+                exportIntervalMillis,
+                exportTimeoutMillis: Math.min(exportIntervalMillis, 5000),
+            }),
+        ],
+    });
+
+    metrics.setGlobalMeterProvider(meterProvider);
+    return meterProvider;
+}
+
+// Push pending metrics to the collector, e.g. before a serverless function freezes
+export async function flushMetrics(): Promise<void> {
+    try {
+        await meterProvider?.forceFlush();
+    } catch (error) {
+        // Silently handle flush errors
+    }
+}
@@ -0,0 +1,124 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { NextjsRouteResolver } from "./route-resolver.ts";
+
+type Manifests = {
+    routes?: object,
+    appPaths?: Record<string, string>,
+    pages?: Record<string, string>,
+}
+
+const directories: string[] = [];
+
+function createResolver(manifests: Manifests): NextjsRouteResolver {
+    const cwd = mkdtempSync(join(tmpdir(), 'route-resolver-'));
+    directories.push(cwd);
+    mkdirSync(join(cwd, '.next', 'server'), { recursive: true });
+    if (manifests.routes) {
+        writeFileSync(join(cwd, '.next', 'routes-manifest.json'), JSON.stringify(manifests.routes));
+    }
+    if (manifests.appPaths) {
+        writeFileSync(join(cwd, '.next', 'server', 'app-paths-manifest.json'), JSON.stringify(manifests.appPaths));
+    }
+    if (manifests.pages) {
+        writeFileSync(join(cwd, '.next', 'server', 'pages-manifest.json'), JSON.stringify(manifests.pages));
+    }
+    return new NextjsRouteResolver({ cwd });
+}
+
+function pages(...routes: string[]): Record<string, string> {
+    return Object.fromEntries(routes.map(route => [route, `pages${route}.js`]));
+}
+
+afterEach(() => {
+    for (const directory of directories.splice(0)) {
+        rmSync(directory, { recursive: true, force: true });
+    }
+});
+
+describe('NextjsRouteResolver.resolve', () => {
+    it('prefers static segments over dynamic ones over catch-alls', () => {
+        const resolver = createResolver({
+            pages: pages('/api/users/[...path]', '/api/users/[id]', '/api/users/me'),
+        });
+
+        expect(resolver.resolve('/api/users/me')).toBe('/api/users/me');
+        expect(resolver.resolve('/api/users/42')).toBe('/api/users/[id]');
+        expect(resolver.resolve('/api/users/42/posts')).toBe('/api/users/[...path]');
+    });
+
+    it('compares segments from left to right', () => {
+        const resolver = createResolver({
+            pages: pages('/[lang]/about', '/shop/[id]'),
+        });
+
+        expect(resolver.resolve('/shop/about')).toBe('/shop/[id]');
+        expect(resolver.resolve('/en/about')).toBe('/[lang]/about');
+    });
+
+    it('matches the parent route before an optional catch-all', () => {
+        const resolver = createResolver({
+            pages: pages('/docs/[[...slug]]', '/docs'),
+        });
+
+        expect(resolver.resolve('/docs')).toBe('/docs');
+        expect(resolver.resolve('/docs/')).toBe('/docs');
+        expect(resolver.resolve('/docs/getting-started/install')).toBe('/docs/[[...slug]]');
+    });
+
+    it('lets an optional catch-all match its parent path when nothing else does', () => {
+        const resolver = createResolver({
+            pages: pages('/docs/[[...slug]]'),
+        });
+
+        expect(resolver.resolve('/docs')).toBe('/docs/[[...slug]]');
+    });
+
+    it('strips route groups, parallel slots and the page suffix from App Router paths', () => {
+        const resolver = createResolver({
+            appPaths: {
+                '/(marketing)/blog/@modal/[slug]/page': 'app/(marketing)/blog/@modal/[slug]/page.js',
+                '/api/health/route': 'app/api/health/route.js',
+                '/page': 'app/page.js',
+            },
+        });
+
+        expect(resolver.resolve('/blog/hello-world')).toBe('/blog/[slug]');
+        expect(resolver.resolve('/api/health')).toBe('/api/health');
+        expect(resolver.resolve('/')).toBe('/');
+    });
+
+    it('ignores the query string, base path, locale and data request prefix', () => {
+        const resolver = createResolver({
+            routes: {
+                basePath: '/shop',
+                i18n: { locales: ['en', 'fr'] },
+                staticRoutes: [{ page: '/' }],
+                dynamicRoutes: [{ page: '/products/[id]' }],
+            },
+        });
+
+        expect(resolver.resolve('/shop/products/1?color=red#reviews')).toBe('/products/[id]');
+        expect(resolver.resolve('/shop/fr/products/1')).toBe('/products/[id]');
+        expect(resolver.resolve('/shop/_next/data/build-id/en/products/1.json')).toBe('/products/[id]');
+        expect(resolver.resolve('/shop/_next/data/build-id/index.json')).toBe('/');
+    });
+
+    it('skips the Pages Router internals and returns undefined without a match', () => {
+        const resolver = createResolver({
+            pages: pages('/_app', '/_document', '/_error', '/about'),
+        });
+
+        expect(resolver.resolve('/_app')).toBeUndefined();
+        expect(resolver.resolve('/contact')).toBeUndefined();
+    });
+
+    it('has no routes when the manifests are missing', () => {
+        const resolver = createResolver({});
+
+        expect(resolver.hasRoutes).toBe(false);
+        expect(resolver.resolve('/')).toBeUndefined();
+    });
+});
@@ -0,0 +1,168 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+type RouteResolverOptions = {
+    /**
+     * The Next.js build output directory
+     * @default '.next'
+     */
+    distDir?: string,
+    /**
+     * The directory the application runs from
+     * @default process.cwd()
+     */
+    cwd?: string,
+}
+
+type RoutesManifest = {
+    basePath?: string,
+    staticRoutes?: { page: string }[],
+    dynamicRoutes?: { page: string }[],
+    i18n?: { locales?: string[] },
+}
+
+type CompiledRoute = {
+    route: string,
+    regex: RegExp,
+    // Static segments weigh most, catch-alls least, so the most specific route matches first
+    score: number[],
+}
+
+const PAGES_ROUTER_INTERNALS = ['/_app', '/_document', '/_error'];
+
+/**
+ * Resolves request paths to Next.js route patterns (`/api/users/[id]`) from the build manifests,
+ * covering App Router and Pages Router routes, dynamic, catch-all and optional catch-all segments,
+ * route groups and parallel route slots.
+ */
+export class NextjsRouteResolver {
+    private routes: CompiledRoute[] = [];
+    private basePath = '';
+    private locales: string[] = [];
+
+    constructor(options: RouteResolverOptions = {}) {
+        const distDir = join(options.cwd || process.cwd(), options.distDir || '.next');
+
+        const routesManifest = readManifest<RoutesManifest>(join(distDir, 'routes-manifest.json'));
+        const appPathsManifest = readManifest<Record<string, string>>(join(distDir, 'server', 'app-paths-manifest.json'));
+        const pagesManifest = readManifest<Record<string, string>>(join(distDir, 'server', 'pages-manifest.json'));
+
+        this.basePath = routesManifest?.basePath || '';
+        this.locales = routesManifest?.i18n?.locales || [];
+
+        const patterns = new Set<string>();
+        for (const route of [...(routesManifest?.staticRoutes || []), ...(routesManifest?.dynamicRoutes || [])]) {
+            patterns.add(route.page);
+        }
+        for (const appPath of Object.keys(appPathsManifest || {})) {
+            patterns.add(normalizeAppPath(appPath));
+        }
+        for (const page of Object.keys(pagesManifest || {})) {
+            if (!PAGES_ROUTER_INTERNALS.includes(page)) {
+                patterns.add(page);
+            }
+        }
+
+        this.routes = [...patterns]
+            .filter(pattern => pattern.startsWith('/'))
+            .map(compileRoute)
+            .sort((a, b) => compareScores(b.score, a.score));
+    }
+
+    /**
+     * Whether any routes were loaded from the manifests
+     */
+    get hasRoutes(): boolean {
+        return this.routes.length > 0;
+    }
+
+    /**
+     * Returns the route pattern for a request URL or pathname, or undefined when no route matches
+     */
+    resolve(url: string): string | undefined {
+        let pathname = url.split(/[?#]/)[0] || '/';
+
+        if (this.basePath && pathname.startsWith(this.basePath)) {
+            pathname = pathname.slice(this.basePath.length) || '/';
+        }
+
+        // Pages Router data requests: /_next/data/<buildId>/path/to/page.json
+        const dataRequest = /^\/_next\/data\/[^/]+(\/.*)\.json$/.exec(pathname);
+        if (dataRequest) {
+            pathname = dataRequest[1] === '/index' ? '/' : dataRequest[1];
+        }
+
+        const [, firstSegment] = pathname.split('/');
+        if (this.locales.includes(firstSegment)) {
+            pathname = pathname.slice(firstSegment.length + 1) || '/';
+        }
+
+        if (pathname.length > 1 && pathname.endsWith('/')) {
+            pathname = pathname.slice(0, -1);
+        }
+
+        return this.routes.find(route => route.regex.test(pathname))?.route;
+    }
+}
+
+function readManifest<T>(path: string): T | undefined {
+    try {
+        return JSON.parse(readFileSync(path, 'utf8'));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// `/(marketing)/blog/@modal/[slug]/page` -> `/blog/[slug]`
+function normalizeAppPath(appPath: string): string {
+    const segments = appPath
+        .split('/')
+        .filter(segment => segment.length > 0)
+        .filter(segment => !(segment.startsWith('(') && segment.endsWith(')')))
+        .filter(segment => !segment.startsWith('@'));
+
+    const last = segments[segments.length - 1];
+    if (last === 'page' || last === 'route' || last === 'default') {
+        segments.pop();
+    }
+    return '/' + segments.join('/');
+}
+
+function compileRoute(route: string): CompiledRoute {
+    const segments = route.split('/').filter(segment => segment.length > 0);
+    const score: number[] = [];
+    let source = '';
+
+    for (const segment of segments) {
+        if (/^\[\[\.\.\.[^\]]+\]\]$/.test(segment)) {
+            source += '(?:/.+)?';
+            // Below a missing segment, so `/docs` wins over `/docs/[[...slug]]` for `/docs`
+            score.push(-2);
+        } else if (/^\[\.\.\.[^\]]+\]$/.test(segment)) {
+            source += '/.+';
+            score.push(1);
+        } else if (/^\[[^\]]+\]$/.test(segment)) {
+            source += '/[^/]+';
+            score.push(2);
+        } else {
+            source += '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            score.push(3);
+        }
+    }
+
+    return {
+        route: route === '' ? '/' : route,
+        regex: new RegExp(`^${source}/?$`),
+        score,
+    };
+}
+
+function compareScores(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        const difference = (a[i] ?? -1) - (b[i] ?? -1);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { configureJwtClaims, configureRedaction, redactBody, redactHeaders, redactText, redactUrl } from "./redaction.ts";
+
+function base64url(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function bearer(payload: object, header: object = { alg: 'HS256', typ: 'JWT' }): string {
+    return `Bearer ${base64url(header)}.${base64url(payload)}.c2lnbmF0dXJl`;
+}
+
+const CLAIMS = { sub: 'user-1', org: 'acme', email: 'ada@example.com', admin: true, roles: ['owner'] };
+
+afterEach(() => {
+    configureRedaction();
+    configureJwtClaims();
+});
+
+describe('card numbers', () => {
+    it('redacts numbers that pass the Luhn check', () => {
+        expect(redactText('paid with 4242424242424242')).toBe('paid with [REDACTED]');
+        expect(redactText('paid with 4242 4242 4242 4242')).toBe('paid with [REDACTED]');
+        expect(redactText('paid with 4242-4242-4242-4242')).toBe('paid with [REDACTED]');
+        expect(redactText('amex 378282246310005')).toBe('amex [REDACTED]');
+    });
+
+    it('keeps numbers that fail the Luhn check', () => {
+        expect(redactText('order 4242424242424241')).toBe('order 4242424242424241');
+        expect(redactText('timestamp 1700000000000000')).toBe('timestamp 1700000000000000');
+    });
+
+    it('keeps numbers too short or too long to be a card', () => {
+        // Both pass the Luhn check
+        expect(redactText('id 000000000018')).toBe('id 000000000018');
+        expect(redactText('id 00000000000000000000018')).toBe('id 00000000000000000000018');
+    });
+
+    it('redacts card numbers inside parsed bodies', () => {
+        expect(redactBody({ payment: { card: '4242424242424242', amount: 1000 } })).toEqual({
+            payment: { card: '[REDACTED]', amount: 1000 },
+        });
+    });
+
+    it('can be turned off', () => {
+        configureRedaction({ builtInRules: [] });
+
+        expect(redactText('paid with 4242424242424242')).toBe('paid with 4242424242424242');
+    });
+});
+
+describe('redactBody', () => {
+    it('redacts the built-in password paths at any depth', () => {
+        expect(redactBody({ user: { name: 'ada', password: 'hunter2' }, secret: { nested: true } })).toEqual({
+            user: { name: 'ada', password: '[REDACTED]' },
+            secret: '[REDACTED]',
+        });
+    });
+
+    it('redacts configured paths with wildcards', () => {
+        configureRedaction({ bodyPaths: ['cards[*].number'] });
+
+        expect(redactBody({ cards: [{ number: '1234', brand: 'visa' }] })).toEqual({
+            cards: [{ number: '[REDACTED]', brand: 'visa' }],
+        });
+    });
+});
+
+describe('redactUrl', () => {
+    it('scrubs credential query parameters and keeps the rest', () => {
+        expect(redactUrl('/callback?code=1&access_token=abc&Signature=xyz#done')).toBe('/callback?code=1&access_token=[REDACTED]&Signature=[REDACTED]#done');
+    });
+});
+
+describe('hash mode', () => {
+    it('replaces equal values with equal hashes', () => {
+        configureRedaction({ hash: true });
+
+        const first = redactText('from ada@example.com');
+        const second = redactText('to ada@example.com');
+
+        expect(first).toMatch(/^from \[HASH:[0-9a-f]{16}\]$/);
+        expect(second.slice(3)).toBe(first.slice(5));
+        expect(redactText('to bob@example.com')).not.toBe(second);
+    });
+});
+
+describe('JWT claims', () => {
+    it('records no claims by default', () => {
+        const { redactedHeaders, jwtClaims } = redactHeaders({ Authorization: bearer(CLAIMS) });
+
+        expect(redactedHeaders).toEqual({ Authorization: '[REDACTED]' });
+        expect(jwtClaims).toEqual({});
+    });
+
+    it('records only allowlisted claims, renamed where configured', () => {
+        configureJwtClaims({ mode: 'allowlist', allow: ['sub', 'org'], rename: { sub: 'enduser.id' } });
+
+        const { redactedHeaders, jwtClaims } = redactHeaders({ authorization: bearer(CLAIMS) });
+
+        expect(redactedHeaders).toEqual({ authorization: '[REDACTED]' });
+        expect(jwtClaims).toEqual({ 'enduser.id': 'user-1', 'token.org': 'acme' });
+    });
+
+    it('records nothing for an empty allowlist', () => {
+        configureJwtClaims({ mode: 'allowlist' });
+
+        expect(redactHeaders({ authorization: bearer(CLAIMS) }).jwtClaims).toEqual({});
+    });
+
+    it('records every scalar claim in all mode', () => {
+        configureJwtClaims({ mode: 'all' });
+
+        expect(redactHeaders({ authorization: bearer(CLAIMS) }).jwtClaims).toEqual({
+            'token.sub': 'user-1',
+            'token.org': 'acme',
+            'token.email': 'ada@example.com',
+            'token.admin': 'true',
+        });
+    });
+
+    it('ignores values that are not bearer JWTs', () => {
+        configureJwtClaims({ mode: 'all' });
+
+        const values = [
+            `Basic ${base64url(CLAIMS)}`,
+            bearer(CLAIMS).split('.').slice(0, 2).join('.'),
+            bearer(CLAIMS, { typ: 'JWT' }),
+            bearer(CLAIMS, { alg: 'HS256', typ: 'JWE' }),
+            bearer(['not', 'an', 'object']),
+            'Bearer a+b.c/d.e=f',
+        ];
+
+        for (const value of values) {
+            expect(redactHeaders({ authorization: value }).jwtClaims).toEqual({});
+        }
+    });
+
+    it('reads claims only from the Authorization header', () => {
+        configureJwtClaims({ mode: 'all' });
+
+        const { redactedHeaders, jwtClaims } = redactHeaders({ 'x-access-token': bearer(CLAIMS), accept: 'application/json' });
+
+        expect(redactedHeaders).toEqual({ 'x-access-token': '[REDACTED]', accept: 'application/json' });
+        expect(jwtClaims).toEqual({});
+    });
+});
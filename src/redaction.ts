@@ -0,0 +1,384 @@
+import { safeDecode } from "./utils/utils.ts";
+
+export type BuiltInRedactionRule = 'passwords' | 'cardNumbers' | 'emails' | 'ssns';
+
+export type RedactionOptions = {
+    /**
+     * Additional header names to redact. Matched case-insensitively as substrings, like the defaults.
+     */
+    headers?: string[],
+    /**
+     * JSON paths of body fields to redact, e.g. `user.password`, `cards[*].number` or `$..token`
+     */
+    bodyPaths?: string[],
+    /**
+     * Regular expressions whose matches are redacted from body strings and log records
+     */
+    bodyPatterns?: RegExp[],
+    /**
+     * Additional query string parameters to scrub from URLs
+     */
+    queryParams?: string[],
+    /**
+     * Built-in body rules to apply
+     * @default ['passwords', 'cardNumbers', 'emails', 'ssns']
+     */
+    builtInRules?: BuiltInRedactionRule[],
+    /**
+     * Replace values with a stable hash instead of `[REDACTED]`, so equal values can still be correlated.
+     * The hash is an unsalted 64-bit FNV-1a, a correlation id rather than protection: emails, SSNs, card
+     * numbers and other low-entropy values can be recovered from it by brute force. Leave it off for data
+     * that must not be recoverable from your telemetry.
+     * @default false
+     */
+    hash?: boolean,
+}
+
+export type JwtClaimsOptions = {
+    /**
+     * `off` records no claims, `allowlist` records only the claims listed in `allow`, `all` records every scalar claim
+     * @default 'off'
+     */
+    mode: 'off' | 'allowlist' | 'all',
+    /**
+     * Claims recorded in `allowlist` mode
+     */
+    allow?: string[],
+    /**
+     * Attribute names for claims, e.g. `{ sub: 'enduser.id' }`. Other claims are recorded as `token.<claim>`.
+     */
+    rename?: Record<string, string>,
+}
+
+// List of sensitive headers to redact
+const SENSITIVE_HEADERS = [
+    'authorization',
+    'cookie',
+    'set-cookie',
+    'x-api-key',
+    'x-auth-token',
+    'x-access-token',
+    'x-kubiks-key',
+    'bearer',
+    'proxy-authorization',
+    'www-authenticate',
+    'proxy-authenticate',
+];
+
+// Query string parameters that commonly carry credentials
+const SENSITIVE_QUERY_PARAMS = [
+    'token',
+    'access_token',
+    'refresh_token',
+    'id_token',
+    'api_key',
+    'apikey',
+    'key',
+    'password',
+    'secret',
+    'client_secret',
+    'signature',
+    'sig',
+    'x-amz-signature',
+    'x-amz-credential',
+    'x-amz-security-token',
+];
+
+const PASSWORD_PATHS = [
+    '$..password',
+    '$..passwd',
+    '$..secret',
+    '$..client_secret',
+    '$..cvv',
+    '$..cvc',
+    '$..ssn',
+];
+
+const CARD_NUMBER_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+
+const REDACTED = '[REDACTED]';
+
+type ResolvedRedaction = {
+    headers: string[],
+    bodyPaths: string[][],
+    bodyPatterns: RegExp[],
+    cardNumbers: boolean,
+    queryParams: string[],
+    hash: boolean,
+}
+
+let config: ResolvedRedaction = resolveOptions({});
+let jwtClaimsConfig: JwtClaimsOptions = { mode: 'off' };
+
+/**
+ * Configure the redaction rules shared by the http, fetch and undici instrumentations and the console logger
+ */
+export function configureRedaction(options: RedactionOptions = {}) {
+    config = resolveOptions(options);
+}
+
+/**
+ * Configure which claims of a bearer JWT in the Authorization header are recorded as span attributes
+ */
+export function configureJwtClaims(options: JwtClaimsOptions = { mode: 'off' }) {
+    jwtClaimsConfig = options;
+}
+
+function resolveOptions(options: RedactionOptions): ResolvedRedaction {
+    const builtInRules = options.builtInRules || ['passwords', 'cardNumbers', 'emails', 'ssns'];
+
+    const bodyPaths = [...(options.bodyPaths || [])];
+    if (builtInRules.includes('passwords')) {
+        bodyPaths.push(...PASSWORD_PATHS);
+    }
+
+    const bodyPatterns = [...(options.bodyPatterns || [])];
+    if (builtInRules.includes('emails')) {
+        bodyPatterns.push(EMAIL_PATTERN);
+    }
+    if (builtInRules.includes('ssns')) {
+        bodyPatterns.push(SSN_PATTERN);
+    }
+
+    return {
+        headers: [...SENSITIVE_HEADERS, ...(options.headers || []).map(header => header.toLowerCase())],
+        bodyPaths: bodyPaths.map(parsePath),
+        bodyPatterns: bodyPatterns.map(pattern => pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g')),
+        cardNumbers: builtInRules.includes('cardNumbers'),
+        queryParams: [...SENSITIVE_QUERY_PARAMS, ...(options.queryParams || [])].map(param => param.toLowerCase()),
+        hash: options.hash || false,
+    };
+}
+
+const BASE64URL_SEGMENT = /^[A-Za-z0-9_-]+$/;
+
+function decodeBase64UrlJSON(segment: string): unknown {
+    // Add padding if needed for base64 decoding
+    const padded = segment + '='.repeat((4 - segment.length % 4) % 4);
+    // atob is available in Node.js and the Edge runtime, Buffer is not
+    const binary = atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+    const decoded = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    return JSON.parse(decoded);
+}
+
+// Parse a bearer JWT and return its payload, or null when the value is not a well-formed JWT
+function parseJWTClaims(value: string): Record<string, unknown> | null {
+    try {
+        const match = /^Bearer\s+(\S+)$/i.exec(value.trim());
+        if (!match) {
+            return null;
+        }
+
+        // JWT tokens have 3 base64url parts separated by dots
+        const parts = match[1].split('.');
+        if (parts.length !== 3 || !parts.every(part => BASE64URL_SEGMENT.test(part))) {
+            return null;
+        }
+
+        // The header must be a JOSE header declaring a signing algorithm
+        const header = decodeBase64UrlJSON(parts[0]) as Record<string, unknown>;
+        if (!header || typeof header !== 'object' || typeof header.alg !== 'string') {
+            return null;
+        }
+        if (header.typ !== undefined && String(header.typ).toUpperCase() !== 'JWT') {
+            return null;
+        }
+
+        const payload = decodeBase64UrlJSON(parts[1]);
+        if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+            return null;
+        }
+        return payload as Record<string, unknown>;
+    } catch (error) {
+        return null;
+    }
+}
+
+function extractJWTClaims(value: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const { mode, allow = [], rename = {} } = jwtClaimsConfig;
+    if (mode === 'off' || (mode === 'allowlist' && allow.length === 0)) {
+        return attributes;
+    }
+
+    const claims = parseJWTClaims(value);
+    if (!claims) {
+        return attributes;
+    }
+
+    for (const [claimKey, claimValue] of Object.entries(claims)) {
+        if (mode === 'allowlist' && !allow.includes(claimKey)) {
+            continue;
+        }
+        if (typeof claimValue === 'string' || typeof claimValue === 'number' || typeof claimValue === 'boolean') {
+            attributes[rename[claimKey] || `token.${claimKey}`] = String(claimValue);
+        }
+    }
+    return attributes;
+}
+
+// Function to redact sensitive headers and extract the configured JWT claims
+export function redactHeaders(headers: Record<string, any>): { redactedHeaders: Record<string, any>, jwtClaims: Record<string, any> } {
+    const redactedHeaders = { ...headers };
+    let jwtClaims: Record<string, any> = {};
+
+    for (const key in redactedHeaders) {
+        const lowerKey = key.toLowerCase();
+        if (config.headers.some(sensitive => lowerKey.includes(sensitive))) {
+            if (lowerKey === 'authorization' && redactedHeaders[key]) {
+                jwtClaims = extractJWTClaims(String(redactedHeaders[key]));
+            }
+            redactedHeaders[key] = redactValue(redactedHeaders[key]);
+        }
+    }
+
+    return { redactedHeaders, jwtClaims };
+}
+
+/**
+ * Redact a parsed body: fields matching the configured JSON paths are replaced,
+ * and every string value has the configured patterns applied.
+ */
+export function redactBody<T>(body: T): T {
+    try {
+        return redactNode(body, []) as T;
+    } catch (error) {
+        return body;
+    }
+}
+
+/**
+ * Apply the configured patterns to free text such as unparsed bodies and log messages
+ */
+export function redactText(text: string): string {
+    let result = text;
+    for (const pattern of config.bodyPatterns) {
+        result = result.replace(pattern, match => redactValue(match));
+    }
+    if (config.cardNumbers) {
+        result = result.replace(CARD_NUMBER_PATTERN, match => isLuhnValid(match) ? redactValue(match) : match);
+    }
+    return result;
+}
+
+/**
+ * Scrub sensitive query string parameters from a URL or request target
+ */
+export function redactUrl(url: string): string {
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) {
+        return url;
+    }
+    const fragmentStart = url.indexOf('#', queryStart);
+    const query = url.slice(queryStart + 1, fragmentStart === -1 ? undefined : fragmentStart);
+    const fragment = fragmentStart === -1 ? '' : url.slice(fragmentStart);
+
+    const scrubbed = query.split('&').map(pair => {
+        const separator = pair.indexOf('=');
+        if (separator === -1) {
+            return pair;
+        }
+        const name = safeDecode(pair.slice(0, separator).replace(/\+/g, ' ')).toLowerCase();
+        if (!config.queryParams.includes(name)) {
+            return pair;
+        }
+        return `${pair.slice(0, separator)}=${redactValue(safeDecode(pair.slice(separator + 1).replace(/\+/g, ' ')))}`;
+    }).join('&');
+
+    return `${url.slice(0, queryStart)}?${scrubbed}${fragment}`;
+}
+
+function redactNode(node: unknown, path: string[]): unknown {
+    if (typeof node === 'string') {
+        return redactText(node);
+    }
+    if (Array.isArray(node)) {
+        return node.map((item, index) => redactField(item, [...path, String(index)]));
+    }
+    if (node && typeof node === 'object' && node.constructor === Object) {
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(node)) {
+            result[key] = redactField(value, [...path, key]);
+        }
+        return result;
+    }
+    return node;
+}
+
+function redactField(value: unknown, path: string[]): unknown {
+    if (config.bodyPaths.some(rule => matchesPath(rule, path))) {
+        return value === null || value === undefined ? value : redactValue(typeof value === 'string' ? value : JSON.stringify(value));
+    }
+    return redactNode(value, path);
+}
+
+// Splits `$.user.cards[*].number` into ['user', 'cards', '*', 'number'], `..` becomes a '**' segment
+function parsePath(path: string): string[] {
+    return path
+        .replace(/^\$/, '')
+        .replace(/\[(\*|\d+)\]/g, '.$1')
+        .replace(/\[['"]([^'"]+)['"]\]/g, '.$1')
+        .replace(/\.\./g, '.**.')
+        .split('.')
+        .filter(segment => segment.length > 0)
+        .map(segment => segment.toLowerCase());
+}
+
+function matchesPath(rule: string[], path: string[]): boolean {
+    if (rule.length === 0) {
+        return path.length === 0;
+    }
+    const [segment, ...rest] = rule;
+    if (segment === '**') {
+        for (let i = 0; i <= path.length; i++) {
+            if (matchesPath(rest, path.slice(i))) {
+                return true;
+            }
+        }
+        return false;
+    }
+    if (path.length === 0) {
+        return false;
+    }
+    return (segment === '*' || segment === path[0].toLowerCase()) && matchesPath(rest, path.slice(1));
+}
+
+function redactValue(value: unknown): string {
+    if (!config.hash) {
+        return REDACTED;
+    }
+    return `[HASH:${fnv1a64(String(value))}]`;
+}
+
+// FNV-1a 64-bit, available in every runtime without pulling in node:crypto. Not a keyed or one-way
+// hash, see RedactionOptions.hash.
+function fnv1a64(value: string): string {
+    let hash = BigInt('0xcbf29ce484222325');
+    const prime = BigInt('0x100000001b3');
+    const mask = BigInt('0xffffffffffffffff');
+    for (const byte of new TextEncoder().encode(value)) {
+        hash = ((hash ^ BigInt(byte)) * prime) & mask;
+    }
+    return hash.toString(16).padStart(16, '0');
+}
+
+function isLuhnValid(candidate: string): boolean {
+    const digits = candidate.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) {
+        return false;
+    }
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
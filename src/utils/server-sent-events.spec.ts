@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { parseServerSentEvents, ServerSentEvent, ServerSentEventParser } from "./server-sent-events.ts";
+
+function parseChunks(chunks: string[], maxEvents = 10) {
+    const events: ServerSentEvent[] = [];
+    const parser = new ServerSentEventParser(maxEvents, event => events.push(event));
+    const encoder = new TextEncoder();
+    for (const chunk of chunks) {
+        parser.push(encoder.encode(chunk));
+    }
+    return { parser, events };
+}
+
+describe('ServerSentEventParser', () => {
+    it('does not read a CRLF split across chunks as two line breaks', () => {
+        const { events } = parseChunks(['data: first\r', '\ndata: second\r\n\r', '\n']);
+
+        expect(events).toEqual([{ data: 'first\nsecond' }]);
+    });
+
+    it('treats a lone CR as a line break once the next chunk arrives', () => {
+        const { parser, events } = parseChunks(['data: first\r', 'data: second\r\r']);
+        // The last CR may still be followed by a LF
+        expect(events).toEqual([]);
+
+        parser.end();
+
+        expect(events).toEqual([{ data: 'first\nsecond' }]);
+    });
+
+    it('dispatches an event left without a trailing blank line on end', () => {
+        const { parser, events } = parseChunks(['event: done\r\ndata: [DONE]\r']);
+        expect(events).toEqual([]);
+
+        parser.end();
+
+        expect(events).toEqual([{ event: 'done', data: '[DONE]' }]);
+    });
+
+    it('decodes multi-byte characters split across chunks', () => {
+        const bytes = new TextEncoder().encode('data: héllo\n\n');
+        const events: ServerSentEvent[] = [];
+        const parser = new ServerSentEventParser(10, event => events.push(event));
+
+        // Split inside the two bytes of `é`
+        parser.push(bytes.slice(0, 8));
+        parser.push(bytes.slice(8));
+
+        expect(events).toEqual([{ data: 'héllo' }]);
+    });
+
+    it('counts every event and samples the first few', () => {
+        const { parser } = parseChunks(['data: 1\n\ndata: 2\n\n', 'data: 3\n\n'], 2);
+
+        expect(parser.count).toBe(3);
+        expect(parser.sample).toEqual([{ data: '1' }, { data: '2' }]);
+    });
+
+    it('truncates the data of sampled events', () => {
+        const { parser, events } = parseChunks([`data: ${'x'.repeat(1500)}\n\n`]);
+
+        expect(parser.sample[0].data).toHaveLength(1000);
+        expect(events[0].data).toHaveLength(1500);
+    });
+});
+
+describe('parseServerSentEvents', () => {
+    it('parses fields, skips comments and events without data', () => {
+        const events = parseServerSentEvents([
+            ': keep-alive',
+            '',
+            'event: message',
+            'id: 1',
+            'data:{"delta":"a"}',
+            '',
+            'event: ping',
+            '',
+            'data: last',
+        ].join('\n'));
+
+        expect(events).toEqual([
+            { event: 'message', id: '1', data: '{"delta":"a"}' },
+            { data: 'last' },
+        ]);
+    });
+});
@@ -0,0 +1,96 @@
+// Keeps the event sample small when events carry large payloads
+const MAX_SAMPLED_EVENT_DATA = 1000;
+
+export type ServerSentEvent = {
+    event?: string,
+    id?: string,
+    data: string,
+}
+
+/**
+ * Incremental `text/event-stream` parser that counts events and keeps the first few
+ */
+export class ServerSentEventParser {
+    count = 0;
+    sample: ServerSentEvent[] = [];
+    private decoder = new TextDecoder();
+    private buffer = '';
+    private current: ServerSentEvent = { data: '' };
+    private hasData = false;
+
+    constructor(private maxEvents: number, private onEvent?: (event: ServerSentEvent) => void) { }
+
+    push(chunk: Uint8Array) {
+        this.write(this.decoder.decode(chunk, { stream: true }));
+    }
+
+    write(text: string) {
+        this.buffer += text;
+        // A trailing `\r` may be followed by the `\n` of the next chunk
+        const pending = this.buffer.endsWith('\r') ? '\r' : '';
+        const lines = this.buffer.slice(0, this.buffer.length - pending.length).split(/\r\n|\r|\n/);
+        // The last line may be incomplete
+        this.buffer = (lines.pop() || '') + pending;
+        for (const line of lines) {
+            this.parseLine(line);
+        }
+    }
+
+    /**
+     * Dispatch the last event of a stream that doesn't end with a blank line
+     */
+    end() {
+        this.write(this.decoder.decode());
+        const line = this.buffer.replace(/\r$/, '');
+        this.buffer = '';
+        if (line) {
+            this.parseLine(line);
+        }
+        this.dispatch();
+    }
+
+    private parseLine(line: string) {
+        if (line === '') {
+            this.dispatch();
+            return;
+        }
+        if (line.startsWith(':')) {
+            return; // Comment
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'data') {
+            this.current.data = this.hasData ? `${this.current.data}\n${value}` : value;
+            this.hasData = true;
+        } else if (field === 'event') {
+            this.current.event = value;
+        } else if (field === 'id') {
+            this.current.id = value;
+        }
+    }
+
+    private dispatch() {
+        if (this.hasData) {
+            this.count++;
+            if (this.sample.length < this.maxEvents) {
+                this.sample.push({ ...this.current, data: this.current.data.substring(0, MAX_SAMPLED_EVENT_DATA) });
+            }
+            this.onEvent?.(this.current);
+        }
+        this.current = { data: '' };
+        this.hasData = false;
+    }
+}
+
+/**
+ * Parse a complete `text/event-stream` body
+ */
+export function parseServerSentEvents(text: string): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    const parser = new ServerSentEventParser(0, event => events.push(event));
+    parser.write(text);
+    parser.end();
+    return events;
+}
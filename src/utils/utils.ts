@@ -1,9 +1,46 @@
 
 
+/**
+ * A parsed JSON object, read loosely by the protocol plugins
+ */
+export type Json = Record<string, any>;
+
+export function asObject(value: unknown): Json | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Json : undefined;
+}
+
+export function asString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+export function asNumber(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * `decodeURIComponent` that returns malformed input unchanged
+ */
+export function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (e) {
+        return value;
+    }
+}
+
 export function safely(cb: () => any) {
     try {
         return cb();
     } catch (e) {
         return undefined;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether `host` is `domain` or one of its subdomains: `api.example.com` matches `example.com`,
+ * `myexample.com` and `example.com.attacker.net` don't. A port is only compared when `domain` has one.
+ */
+export function isHostOrSubdomain(host: string, domain: string): boolean {
+    const hostname = domain.includes(':') ? host : host.replace(/:\d+$/, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/lambda.ts', 'src/trpc.ts'],
+  entry: ['src/index.ts', 'src/lambda.ts', 'src/trpc.ts', 'src/edge.ts'],
   splitting: false,
   sourcemap: false,
   dts: true,